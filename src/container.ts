@@ -1,7 +1,30 @@
+import { FuncRegistry } from './decorators/func';
+import { getInjections } from './decorators/inject';
+import { ValRegistry } from './decorators/val';
+import {
+  WatchRegistry,
+  type BWatchHandler,
+  type BWatchOptions,
+} from './decorators/watch';
+import { createAsyncContext } from './environment';
+import { ContainerDisposedError } from './errors/ContainerDisposedError';
+import { TypeError } from './errors/TypeError';
 import { UnaryBus, type BListener, type BUnsubscribe } from './eventBus';
-import type { BPlugin, BPluginClass } from './plugin';
-import { PluginArray, ServiceIdentifiers, ServiceRegistry } from './registries';
-import type { BServiceClass, BServiceInstance } from './service';
+import { BatchEventId, type BBatchEvent, type BNotifyEvent } from './events';
+import {
+  buildDependencyGraph,
+  sortDependencyGraph,
+  type BDependencyGraph,
+} from './graph';
+import type { BInvocation, BPlugin, BPluginClass } from './plugin';
+import { GlobalRegistry, type BRegistry } from './registries';
+import {
+  isServiceClass,
+  type BServiceClass,
+  type BServiceInstance,
+} from './service';
+import { getVaultFromInstance, trackRead } from './vault';
+import { getWrappers, type BWrappedFunction } from './wrappers';
 
 export const IdentifierSymbol = Symbol('identifier');
 export const BusSymbol = Symbol('bus');
@@ -12,6 +35,53 @@ export const BusSymbol = Symbol('bus');
 export type BServiceTuple = {
   class: BServiceClass;
   instance: BServiceInstance<unknown>;
+  scope?: string;
+};
+
+/**
+ * A handle to the scoped instances of a container.
+ * Scoped instances are created per scope name and can be disposed together.
+ */
+export type BScope = {
+  /**
+   * Name of the scope.
+   */
+  readonly name: string;
+
+  /**
+   * Retrieves the service instance of this scope by its class.
+   *
+   * @param {T} target - The service class to retrieve.
+   * @returns {T} The scoped service instance.
+   */
+  getByClass<T>(target: T): T;
+
+  /**
+   * Resolves the service instance of this scope asynchronously by its class.
+   *
+   * @param {T} target - The service class to resolve.
+   * @returns {Promise<T>} A promise that resolves to the scoped service instance.
+   */
+  resolveByClass<T>(target: T): Promise<T>;
+
+  /**
+   * Get the services created within this scope.
+   */
+  getServices(): BServiceTuple[];
+
+  /**
+   * Marks a consumer of the scoped service instance.
+   * The instance is destroyed once its last consumer releases it.
+   *
+   * @param {T} target - The service class to retain.
+   * @returns {BUnsubscribe} A function releasing the instance.
+   */
+  retain<T>(target: T): BUnsubscribe;
+
+  /**
+   * Destroys every service instance of this scope.
+   */
+  dispose(): Promise<void>;
 };
 
 /**
@@ -48,13 +118,22 @@ export type BContainer = {
   /**
    * Resolves a service instance asynchronously by its class.
    * This method is useful when you need to initialize or await the service setup before usage.
+   * Injected services are resolved first, in the order of the dependency graph.
    *
    * @param {T} target - The service class to resolve.
    * @param {string} [scope] - Optional scope to specify which instance of the service to resolve.
    * @returns {Promise<T>} A promise that resolves to the service instance.
+   * @throws {DependencyCycleError} If the service has a circular dependency.
    */
   resolveByClass<T>(target: T, scope?: string): Promise<T>;
 
+  /**
+   * Builds the dependency graph of the registered and loaded services from their injections.
+   *
+   * @returns {BDependencyGraph} A map of every service to the services it depends on.
+   */
+  getDependencyGraph(): BDependencyGraph;
+
   /**
    * Invokes a function from multiple services in parallel.
    *
@@ -82,12 +161,30 @@ export type BContainer = {
    */
   reset(filter?: (target: BServiceClass, instance: unknown) => boolean): void;
   /**
-   * Destroy services in the container.
+   * Destroy services in the container, in reverse order of their creation.
    * Optionally, a filter function can be provided to target specific services for removal.
    *
    * @param {(target: BServiceClass, instance: unknown) => boolean} [filter] - An optional filter function to specify which services to clear.
+   * @returns {Promise<void>} A promise that resolves once the services are destroyed.
    */
-  destroy(filter?: (target: BServiceClass, instance: unknown) => boolean): void;
+  destroy(
+    filter?: (target: BServiceClass, instance: unknown) => boolean,
+  ): Promise<void>;
+
+  /**
+   * Tears down the container.
+   * Child containers are disposed first, then every service is destroyed in reverse order of its creation
+   * and plugins release their state through `onContainerDispose`.
+   * Any further use of the container throws a `ContainerDisposedError`.
+   *
+   * @returns {Promise<void>} A promise that resolves once the container is torn down.
+   */
+  dispose(): Promise<void>;
+
+  /**
+   * Check whether the container has been disposed.
+   */
+  isDisposed(): boolean;
 
   /**
    * Register a lazy loaded plugin into the container.
@@ -123,6 +220,29 @@ export type BContainer = {
    */
   subscribe<T>(listener: BListener<T>): BUnsubscribe;
 
+  /**
+   * Dispatch a property notification to the container bus and the bus of its service instance.
+   * Within a batch, the notification is queued until the outermost batch completes.
+   *
+   * @param event notification to dispatch
+   */
+  notify(event: BNotifyEvent): void;
+
+  /**
+   * Runs a function while coalescing the notifications it raises into one flush per service instance.
+   * Batches can be nested, the notifications are flushed once the outermost batch completes.
+   * When the function throws (or its promise rejects), the values it assigned are rolled back
+   * and its notifications are discarded. Watchers are called once the outermost batch completes,
+   * with the value of each property preceding the batch.
+   * Only the assignments of the function belong to the batch, the ones made elsewhere while its promise is pending
+   * are notified as usual. Where `AsyncLocalStorage` is not available (e.g. browsers),
+   * the batch only covers the function until its first `await`.
+   *
+   * @param fn function to run
+   * @returns the result of the function
+   */
+  batch<T>(fn: () => T): T;
+
   /**
    * Halt hooks and events that are happening (mostly used by plugins)
    * 
@@ -135,8 +255,141 @@ export type BContainer = {
   isHalted(): boolean;
 
   getServices(): MapIterator<BServiceTuple>
+
+  /**
+   * Creates a child container.
+   * The child creates the provided services itself and resolves every other service from this container.
+   *
+   * @param options Options of the child container.
+   */
+  createChild<O extends unknown[] = unknown[]>(
+    options?: BChildContainerOptions<O>,
+  ): BContainer;
+
+  /**
+   * Get the parent of a child container.
+   */
+  getParent(): BContainer | undefined;
+
+  /**
+   * Get the registry the container is bound to.
+   */
+  getRegistry(): BRegistry;
+
+  /**
+   * Get a handle to the scoped instances of the given scope name.
+   *
+   * @param name name of the scope
+   */
+  scope(name: string): BScope;
+
+  /**
+   * List the scopes that have instances within the container.
+   *
+   * @param target Optional service class to only list the scopes of.
+   */
+  getScopes(target?: unknown): string[];
+
+  /**
+   * Get the wrappers applied on a function of a service, ordered from the outermost to the innermost one.
+   * Only the wrappers handled by a plugin of the container are listed.
+   *
+   * @param target - The service class.
+   * @param propertyName - The name of the function.
+   * @param scope - Optional scope of the service instance.
+   * @returns {string[]} The kinds of the wrappers (e.g. `['cache', 'retry']`).
+   */
+  getWrapperChain<T>(
+    target: T,
+    propertyName: keyof T & string,
+    scope?: string,
+  ): string[];
+
+  /**
+   * Calls the handler whenever a `val` property of a service changes.
+   * The changes made within a batch are delivered once it is committed, and not at all when it is rolled back.
+   *
+   * @param target - The service class.
+   * @param propertyName - The name of the watched property.
+   * @param handler - The function receiving the new and the previous value.
+   * @param options - The watcher options, along with an optional scope of the service instance.
+   * @returns {BUnsubscribe} A function that stops watching.
+   */
+  watch<T, K extends keyof T & string>(
+    target: T,
+    propertyName: K,
+    handler: BWatchHandler<T[K]>,
+    options?: BWatchOptions & { scope?: string },
+  ): BUnsubscribe;
+
+  /**
+   * Replaces the implementation of a service within this container (mostly used by tests).
+   * The implementation is either another service class or a partial set of properties applied on top of the original service.
+   * Plugins run on the replacement like on any other service, an already created instance is destroyed.
+   *
+   * @param target - The service class to replace.
+   * @param implementation - The replacing service class or properties.
+   */
+  override<T>(target: T, implementation: Partial<T>): void;
+};
+
+/**
+ * A replaced service implementation, see `BContainer.override`.
+ */
+export type BOverride<T = unknown> = [target: T, implementation: Partial<T>];
+
+/**
+ * A list of replaced service implementations, each typed after its service.
+ */
+export type BOverrides<O extends unknown[] = unknown[]> = {
+  [K in keyof O]: BOverride<O[K]>;
+};
+
+/**
+ * Defines the options for a child container.
+ */
+export type BChildContainerOptions<O extends unknown[] = unknown[]> = {
+  /**
+   * Maximum number of plugins the container can hold.
+   * @default 128
+   */
+  maxPlugins?: number;
+  /**
+   * Services that are created within the child container instead of being resolved from its parent.
+   * Destroying the child only destroys these services.
+   */
+  provide?: unknown[];
+  /**
+   * Replaced service implementations, see `BContainer.override`.
+   */
+  overrides?: BOverrides<O>;
 };
 
+/**
+ * Defines the options for a container.
+ */
+export type BContainerOptions<O extends unknown[] = unknown[]> =
+  BChildContainerOptions<O> & {
+    /**
+     * The container to resolve services from when they are not provided locally.
+     */
+    parent?: BContainer;
+    /**
+     * The registry to take services and plugins from (a child uses the registry of its parent).
+     * @default GlobalRegistry
+     */
+    registry?: BRegistry;
+    /**
+     * Create services on first use instead of creating every registered service upfront.
+     * @default false
+     */
+    lazy?: boolean;
+    /**
+     * Services that are created upfront in lazy mode (along with their dependencies).
+     */
+    eager?: unknown[];
+  };
+
 /**
  * Creates and returns a new instance of a Beatle container.
  * The container manages services, their lifecycle, and plugin registration within the Beatle framework.
@@ -148,40 +401,500 @@ export type BContainer = {
  *
  * Services are registered and retrieved by class or name, and plugins can hook into service creation and destruction.
  *
+ * @example
+ * ```tsx
+ * import { Container } from "beatlejs";
+ *
+ * const container = Container();
+ * // Each modal gets its own $ModalState while sharing every other service
+ * const modal = container.createChild({ provide: [$ModalState] });
+ * modal.getByClass($ModalState) !== container.getByClass($ModalState);
+ * modal.getByClass($Session) === container.getByClass($Session);
+ *
+ * // Only create services on first use
+ * const lazyContainer = Container({ lazy: true, eager: [$Session] });
+ * ```
+ *
  * @returns {BContainer} - The container instance with methods to manage services, invoke functions, and handle plugins.
  */
-export function Container(options?: { maxPlugins?: number }): BContainer {
+export function Container<O extends unknown[] = unknown[]>(
+  options?: BContainerOptions<O>,
+): BContainer {
+  const parent = options?.parent;
+  const registry =
+    options?.registry ?? parent?.getRegistry() ?? GlobalRegistry;
+  const provided = new Set(options?.provide as BServiceClass[] | undefined);
+  const overrides = new Map<BServiceClass, unknown>();
+  const scopes = new Map<string, BScope>();
+  const references = new Map<string, number>();
+  const wrapperChains = new WeakMap<object, Map<string, string[]>>();
+  const watchers = new WeakMap<object, Map<string, Set<BWatcher>>>();
+  const batches = createAsyncContext<BBatchFrame>();
+  const invocations = createAsyncContext<BInvocation>();
   const services = new Map<string, BServiceTuple>();
   const context: Record<string | symbol, unknown> = {};
   const pluginSet = new Map<BPluginClass, number>();
   const pluginArray: BPlugin[] = Array(options?.maxPlugins ?? 128);
   let pluginCounter = 0;
+  const children = new Set<BContainer>();
   const bus = UnaryBus<unknown>();
   let bIsInert = false;
+  let disposing: Promise<void> | undefined;
+  let disposed = false;
 
   const self: BContainer = {
     getByClass,
     getByName,
     getPluginByClass,
     resolveByClass,
+    getDependencyGraph,
     registerPlugin,
     invokeParallel,
     invokeLinear,
     reset,
     destroy,
+    dispose,
+    isDisposed,
     setProperty,
     getProperty,
     halt,
     isHalted,
-    dispatch: bus.dispatch as BContainer['dispatch'],
-    subscribe: bus.subscribe as BContainer['subscribe'],
+    dispatch,
+    subscribe,
+    notify,
+    batch,
     getServices,
+    createChild,
+    getParent,
+    getRegistry,
+    scope,
+    getScopes,
+    getWrapperChain,
+    watch,
+    override,
   };
 
+  (options?.overrides as BOverride[] | undefined)?.forEach(
+    ([target, implementation]) => override(target, implementation),
+  );
+
   function getServices() {
     return services.values()
   }
 
+  function createChild<O extends unknown[] = unknown[]>(
+    childOptions?: BChildContainerOptions<O>,
+  ) {
+    assertActive('createChild');
+    const child = Container({ ...childOptions, parent: self });
+    children.add(child);
+    // Forget the child once it is disposed on its own
+    const disposeChild = child.dispose;
+    child.dispose = () =>
+      disposeChild().then(() => {
+        children.delete(child);
+      });
+    return child;
+  }
+
+  function dispatch<T>(message: T) {
+    assertActive('dispatch');
+    return bus.dispatch(message);
+  }
+
+  function subscribe<T>(listener: BListener<T>) {
+    assertActive('subscribe');
+    return bus.subscribe(listener as BListener<unknown>);
+  }
+
+  function notify(event: BNotifyEvent) {
+    const invocation = invocations.get();
+    if (invocation && !event.invocation) event = { ...event, invocation };
+    const frame = getBatch();
+    if (frame) {
+      frame.events.push(event);
+      return;
+    }
+    bus.dispatch(event);
+    event.instance.dispatch(event);
+  }
+
+  function batch<T>(fn: () => T): T {
+    assertActive('batch');
+    const frame: BBatchFrame = {
+      events: [],
+      previousValues: new Map(),
+      parent: getBatch(),
+      settled: false,
+    };
+    let result: T;
+    try {
+      result = batches.run(frame, fn);
+    } catch (e) {
+      rollback(frame);
+      throw e;
+    }
+    if (result instanceof Promise) {
+      return result.then(
+        (value) => {
+          commit(frame);
+          return value;
+        },
+        (e) => {
+          rollback(frame);
+          throw e;
+        },
+      ) as T;
+    }
+    commit(frame);
+    return result;
+  }
+
+  // Helper function to find the batch of the running call, which is carried through its `await`
+  function getBatch() {
+    let frame = batches.get();
+    while (frame?.settled) frame = frame.parent;
+    return frame;
+  }
+
+  // Helper function to hand the notifications of a batch to the enclosing batch, or to flush them
+  function commit(frame: BBatchFrame) {
+    frame.settled = true;
+    let outer = frame.parent;
+    while (outer?.settled) outer = outer.parent;
+    if (!outer) {
+      flush(frame.events);
+      flushWatchers(frame.previousValues);
+      return;
+    }
+    outer.events.push(...frame.events);
+    frame.previousValues.forEach((values, instance) => {
+      let outerValues = outer.previousValues.get(instance);
+      if (!outerValues) {
+        outerValues = new Map();
+        outer.previousValues.set(instance, outerValues);
+      }
+      values.forEach((value, propertyName) => {
+        if (!outerValues.has(propertyName))
+          outerValues.set(propertyName, value);
+      });
+    });
+  }
+
+  // Helper function to restore the values assigned within a batch and drop its notifications
+  function rollback(frame: BBatchFrame) {
+    // The restored values are assigned within the batch, so their notifications are discarded along with it
+    batches.run(frame, () =>
+      frame.previousValues.forEach((values, instance) => {
+        const target = instance as Record<string, unknown>;
+        values.forEach((value, propertyName) => {
+          target[propertyName] = value;
+        });
+      }),
+    );
+    frame.settled = true;
+  }
+
+  // Helper function to call the watchers of the properties a committed batch changed, with their value preceding it
+  function flushWatchers(previousValues: BBatchFrame['previousValues']) {
+    previousValues.forEach((values, instance) => {
+      if (!watchers.has(instance)) return;
+      const vault = getVaultFromInstance(instance as BServiceInstance<unknown>);
+      values.forEach((previousValue, propertyName) => {
+        const value = vault.get(propertyName)?.value;
+        if (Object.is(value, previousValue)) return;
+        notifyWatchers(instance, propertyName, value, previousValue);
+      });
+    });
+  }
+
+  // Helper function to call the watchers of a property
+  function notifyWatchers(
+    instance: object,
+    propertyName: string,
+    value: unknown,
+    previousValue: unknown,
+  ) {
+    watchers
+      .get(instance)
+      ?.get(propertyName)
+      ?.forEach((watcher) =>
+        watcher.notify(value, previousValue, propertyName),
+      );
+  }
+
+  // Helper function to dispatch the notifications of a batch once per instance
+  function flush(events: BNotifyEvent[]) {
+    const grouped = new Map<unknown, Map<string, BNotifyEvent>>();
+    events.forEach((event) => {
+      let properties = grouped.get(event.instance);
+      if (!properties) {
+        properties = new Map();
+        grouped.set(event.instance, properties);
+      }
+      // Nested changes of deep signals are kept apart by their path
+      const key = event.path ?? event.propertyName;
+      const first = properties.get(key);
+      if (!first) {
+        properties.set(key, event);
+        return;
+      }
+      // Coalesce the notifications of a property, from its first previous value to its last value
+      properties.set(key, {
+        ...event,
+        previousValue: first.previousValue,
+        isSimilar: first.isSimilar && event.isSimilar,
+      });
+    });
+    grouped.forEach((properties) => {
+      const list = Array.from(properties.values());
+      const message: BBatchEvent = {
+        type: BatchEventId,
+        target: list[0].target,
+        instance: list[0].instance,
+        events: list,
+      };
+      bus.dispatch(message);
+      message.instance.dispatch(message);
+    });
+  }
+
+  function isDisposed() {
+    return disposed;
+  }
+
+  // Helper function to reject the use of a disposed container
+  function assertActive(operation: string) {
+    if (disposed) throw new ContainerDisposedError(operation);
+  }
+
+  function dispose() {
+    if (!disposing) disposing = teardown();
+    return disposing;
+  }
+
+  async function teardown() {
+    for (const child of Array.from(children).reverse()) {
+      await child.dispose();
+    }
+    children.clear();
+    await destroy();
+    // Let plugins release their state once every service is gone
+    for (let i = pluginCounter - 1; i >= 0; i--) {
+      const plugin = pluginArray[i];
+      if (plugin.onContainerDispose) await plugin.onContainerDispose();
+    }
+    pluginArray.fill(undefined as never);
+    pluginSet.clear();
+    pluginCounter = 0;
+    bus.clear();
+    scopes.clear();
+    references.clear();
+    overrides.clear();
+    Reflect.ownKeys(context).forEach((key) => delete context[key]);
+    disposed = true;
+  }
+
+  function getParent() {
+    return parent;
+  }
+
+  function getRegistry() {
+    return registry;
+  }
+
+  function getScopes(target?: unknown) {
+    const output = new Set<string>();
+    const service = target as BServiceClass | undefined;
+    services.forEach((value, key) => {
+      if (!value.scope) return;
+      if (service && key !== `${service.identifier}_${value.scope}`) return;
+      output.add(value.scope);
+    });
+    return Array.from(output);
+  }
+
+  function scope(name: string) {
+    assertActive('scope');
+    let handle = scopes.get(name);
+    if (handle) return handle;
+    handle = {
+      name,
+      getByClass: (target) => getByClass(target, name),
+      resolveByClass: (target) => resolveByClass(target, name),
+      getServices: () =>
+        Array.from(services.values()).filter((value) => value.scope === name),
+      retain(target) {
+        const service = target as BServiceClass;
+        // Inherited services are counted where they live
+        if (parent && !provided.has(service))
+          return parent.scope(name).retain(target);
+        const key = `${service.identifier}_${name}`;
+        const instance = getByClass(target, name);
+        references.set(key, (references.get(key) ?? 0) + 1);
+        let released = false;
+        return () => {
+          if (released) return;
+          released = true;
+          const count = (references.get(key) ?? 1) - 1;
+          if (count > 0) {
+            references.set(key, count);
+            return;
+          }
+          references.delete(key);
+          // Wait a tick so a consumer that remounts right away keeps the instance
+          Promise.resolve()
+            .then(() => {
+              if (references.has(key)) return;
+              if (services.get(key)?.instance !== instance) return;
+              services.delete(key);
+              return (instance as BServiceInstance<unknown>).destroy();
+            })
+            .catch((e) => {
+              console.error(
+                `${key}: Failed to destroy the released service,`,
+                e,
+              );
+            });
+        };
+      },
+      async dispose() {
+        const tuples = Array.from(services.entries())
+          .filter(([, value]) => value.scope === name)
+          .reverse();
+        for (const [key, value] of tuples) {
+          services.delete(key);
+          references.delete(key);
+          await value.instance.destroy();
+        }
+      },
+    };
+    scopes.set(name, handle);
+    return handle;
+  }
+
+  function getWrapperChain<T>(
+    target: T,
+    propertyName: keyof T & string,
+    scope?: string,
+  ): string[] {
+    assertActive('getWrapperChain');
+    const service = target as BServiceClass;
+    if (parent && !provided.has(service))
+      return parent.getWrapperChain(target, propertyName, scope);
+    const instance = getByClass(target, scope) as object;
+    return [...(wrapperChains.get(instance)?.get(propertyName) ?? [])];
+  }
+
+  function watch<T, K extends keyof T & string>(
+    target: T,
+    propertyName: K,
+    handler: BWatchHandler<T[K]>,
+    watchOptions?: BWatchOptions & { scope?: string },
+  ): BUnsubscribe {
+    assertActive('watch');
+    const service = target as BServiceClass;
+    const scope = watchOptions?.scope;
+    // The properties of inherited services are assigned where they live
+    if (parent && !provided.has(service))
+      return parent.watch(target, propertyName, handler, watchOptions);
+    const instance = getByClass(target, scope);
+    return addWatcher(
+      instance as object,
+      [propertyName],
+      handler as BWatchHandler,
+      watchOptions,
+    );
+  }
+
+  // Helper function to call a handler on the changes of properties of an instance
+  function addWatcher(
+    instance: object,
+    properties: string[],
+    handler: BWatchHandler,
+    watchOptions?: BWatchOptions,
+  ): BUnsubscribe {
+    let handlers = watchers.get(instance);
+    if (!handlers) {
+      handlers = new Map();
+      watchers.set(instance, handlers);
+    }
+    const debounceMs = watchOptions?.debounceMs;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const pending = new Map<string, [unknown, unknown]>();
+    const watcher: BWatcher = {
+      notify(value, previousValue, propertyName) {
+        if (debounceMs === undefined) {
+          handler(value, previousValue, propertyName);
+          return;
+        }
+        // Keep the value preceding the first change of the burst
+        const first = pending.get(propertyName);
+        pending.set(propertyName, [value, first ? first[1] : previousValue]);
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          const changes = Array.from(pending.entries());
+          pending.clear();
+          timer = undefined;
+          changes.forEach(([name, [current, previous]]) =>
+            handler(current, previous, name),
+          );
+        }, debounceMs);
+      },
+      cancel() {
+        clearTimeout(timer);
+        timer = undefined;
+        pending.clear();
+      },
+    };
+    properties.forEach((propertyName) => {
+      let set = handlers.get(propertyName);
+      if (!set) {
+        set = new Set();
+        handlers.set(propertyName, set);
+      }
+      set.add(watcher);
+    });
+    if (watchOptions?.immediate) {
+      const values = instance as Record<string, unknown>;
+      properties.forEach((propertyName) =>
+        handler(values[propertyName], undefined, propertyName),
+      );
+    }
+    return () => {
+      watcher.cancel();
+      properties.forEach((propertyName) =>
+        handlers.get(propertyName)?.delete(watcher),
+      );
+    };
+  }
+
+  function override<T>(target: T, implementation: Partial<T>) {
+    assertActive('override');
+    const service = target as BServiceClass;
+    overrides.set(service, implementation);
+    // Overridden services always live in the container that overrides them
+    if (parent) provided.add(service);
+    // Drop the instances (including scoped ones) created before the override
+    services.forEach((value, key) => {
+      const instanceKey = value.scope
+        ? `${service.identifier}_${value.scope}`
+        : service.identifier;
+      if (key !== instanceKey) return;
+      services.delete(key);
+      references.delete(key);
+      Promise.resolve(value.instance.destroy()).catch((e) => {
+        console.error(`${key}: Failed to destroy the overridden service,`, e);
+      });
+    });
+  }
+
+  // Helper function to pick the class that implements a service
+  function getImplementation(service: BServiceClass) {
+    const implementation = overrides.get(service);
+    return isServiceClass(implementation) ? implementation : service;
+  }
+
   function isHalted() {
     return bIsInert;
   }
@@ -213,12 +926,23 @@ export function Container(options?: { maxPlugins?: number }): BContainer {
   }
 
   // Initialize all registered plugins and add them to the container
-  PluginArray.forEach((plugin) => addPlugin(plugin));
+  registry.getPlugins().forEach((plugin) => addPlugin(plugin));
 
-  // Initialize all registered services
-  ServiceRegistry.forEach((item) => getByClass(item));
+  // Initialize the upfront services, dependencies first
+  // (services on a cycle are reported once resolved, instead of by every container of the registry)
+  sortDependencyGraph(buildDependencyGraph(getInitialServices()), undefined, {
+    skipCycles: !parent && !options?.lazy,
+  }).forEach((item) => getByClass(item));
+
+  function getInitialServices(): Iterable<BServiceClass> {
+    // A child only creates the services it provides
+    if (parent) return provided;
+    if (options?.lazy) return (options.eager ?? []) as BServiceClass[];
+    return registry.services;
+  }
 
   function registerPlugin(plugin: BPluginClass) {
+    assertActive('registerPlugin');
     if (pluginSet.has(plugin)) return;
     const pluginInstance = addPlugin(plugin);
     services.forEach((value) => {
@@ -228,15 +952,14 @@ export function Container(options?: { maxPlugins?: number }): BContainer {
   }
 
   function autoRegisterNewPlugins() {
-    if (PluginArray.length != pluginCounter) {
-      for (let i = pluginCounter - 1; i < PluginArray.length; i++) {
-        addPlugin(PluginArray[i]);
-      }
-    }
+    registry.getPlugins().forEach((plugin) => {
+      if (!pluginSet.has(plugin)) addPlugin(plugin);
+    });
   }
 
   // Method to invoke a function on all services in parallel
   async function invokeParallel(name: string, ...args: unknown[]) {
+    assertActive('invokeParallel');
     await Promise.all(
       Array.from(services.values()).map((obj) => {
         const instance: BServiceInstance<{ [key: string]: never }> =
@@ -256,6 +979,7 @@ export function Container(options?: { maxPlugins?: number }): BContainer {
 
   // Method to invoke a function on all services in a specific order
   async function invokeLinear(name: string, ...args: unknown[]) {
+    assertActive('invokeLinear');
     // Sort services based on their order property
     const ordered = Array.from(services.values()).sort(
       (a, b) => (a.class.order ?? 0) - (b.class.order ?? 0),
@@ -277,6 +1001,7 @@ export function Container(options?: { maxPlugins?: number }): BContainer {
   function reset(
     filter?: (target: BServiceClass, instance: unknown) => boolean,
   ) {
+    assertActive('reset');
     services.forEach((obj) => {
       if (filter && !filter(obj.class, obj.instance)) return;
       // If the instance has a reset method, call it
@@ -290,76 +1015,105 @@ export function Container(options?: { maxPlugins?: number }): BContainer {
     });
   }
 
-  // Method to clear services from the container
-  function destroy(
+  // Method to destroy services from the container, the latest created first
+  async function destroy(
     filter?: (target: BServiceClass, instance: unknown) => boolean,
   ) {
-    services.forEach((obj) => {
-      if (filter && !filter(obj.class, obj.instance)) return;
-      // If the instance has a reset method, call it
-      if (
-        typeof obj.instance === 'object' &&
-        'reset' in obj.instance &&
-        typeof obj.instance.reset === 'function'
-      ) {
-        obj.instance.destroy();
-      }
-    });
+    assertActive('destroy');
+    const tuples = Array.from(services.values()).reverse();
+    for (const obj of tuples) {
+      if (filter && !filter(obj.class, obj.instance)) continue;
+      await obj.instance.destroy();
+    }
   }
 
   // Method to retrieve a plugin by its class
   function getPluginByClass<T extends BPluginClass>(type: T): ReturnType<T> {
+    assertActive('getPluginByClass');
     const index = pluginSet.get(type);
     if (typeof index === 'undefined') throw new Error('Plugin not found.');
     return pluginArray[index] as unknown as ReturnType<T>;
   }
 
+  // Method to build the dependency graph of all known services
+  function getDependencyGraph() {
+    const targets = new Set(registry.services);
+    services.forEach((value) => targets.add(value.class));
+    return buildDependencyGraph(targets);
+  }
+
   // Method to resolve a service by its class
   async function resolveByClass<T>(target: T, scope?: string): Promise<T> {
+    assertActive('resolveByClass');
     const service = target as BServiceClass;
     const key = scope ? `${service.identifier}_${scope}` : service.identifier;
-    const impl = services.get(key);
-    if (!impl) {
-      const instance = makeService(target, key);
-      // Invoke onCreate for each plugin when a new service is created
-      for (let i = 0; i < pluginCounter; i++) {
-        const plugin = pluginArray[i];
-        if (plugin.onCreate) {
-          await plugin.onCreate(target as BServiceClass, instance);
-          if(service.extends) {
-            await plugin.onCreate(service.extends as BServiceClass, instance);
-          }
+    if (!services.has(key)) {
+      // Fail early with a readable path if the dependencies are circular
+      sortDependencyGraph(buildDependencyGraph([service]));
+    }
+    return initialize(target, scope);
+  }
+
+  // Helper function to create a service once its dependencies are initialized
+  async function initialize<T>(target: T, scope?: string): Promise<T> {
+    const service = target as BServiceClass;
+    const key = scope ? `${service.identifier}_${scope}` : service.identifier;
+    let impl = services.get(key);
+    if (impl) return impl.instance as T;
+    // Services that are not provided locally are resolved from the parent
+    if (parent && !provided.has(service))
+      return parent.resolveByClass(target, scope);
+    const implementation = getImplementation(service);
+    for (const dependency of getInjections(implementation)) {
+      await initialize(dependency.target, dependency.scope);
+    }
+    // A dependency may have created the service in the meantime
+    impl = services.get(key);
+    if (impl) return impl.instance as T;
+    const instance = makeService(implementation, key);
+    // Invoke onCreate for each plugin when a new service is created
+    for (let i = 0; i < pluginCounter; i++) {
+      const plugin = pluginArray[i];
+      if (plugin.onCreate) {
+        await plugin.onCreate(implementation, instance);
+        if(implementation.extends) {
+          await plugin.onCreate(implementation.extends as BServiceClass, instance);
         }
       }
-      services.set(key, {
-        class: service,
-        instance,
-      });
-      return instance as T;
     }
-    return impl.instance as T;
+    services.set(key, {
+      class: implementation,
+      instance,
+      scope,
+    });
+    return instance as T;
   }
 
   // Method to retrieve a service by its class
   function getByClass<T>(target: T, scope?: string): T {
+    assertActive('getByClass');
     const service = target as BServiceClass;
     const key = scope ? `${service.identifier}_${scope}` : service.identifier;
     const impl = services.get(key);
     if (!impl) {
-      const instance = makeService(target, key);
+      if (parent && !provided.has(service))
+        return parent.getByClass(target, scope);
+      const implementation = getImplementation(service);
+      const instance = makeService(implementation, key);
       // Invoke onCreate for each plugin when a new service is created
       for (let i = 0; i < pluginCounter; i++) {
         const plugin = pluginArray[i];
         if (plugin.onCreate) {
-          plugin.onCreate(target as BServiceClass, instance);
-          if(service.extends) {
-            plugin.onCreate(service.extends as BServiceClass, instance);
+          plugin.onCreate(implementation, instance);
+          if(implementation.extends) {
+            plugin.onCreate(implementation.extends as BServiceClass, instance);
           }
         }
       }
       services.set(key, {
-        class: service,
+        class: implementation,
         instance,
+        scope,
       });
       return instance as T;
     }
@@ -368,10 +1122,11 @@ export function Container(options?: { maxPlugins?: number }): BContainer {
 
   // Method to retrieve a service by its name
   function getByName<T = unknown>(identifier: string, scope?: string): T {
+    assertActive('getByName');
     const key = scope ? `${identifier}_${scope}` : identifier;
     const impl = services.get(key);
     if (impl) return impl.instance as T;
-    const target = ServiceIdentifiers.get(identifier);
+    const target = registry.identifiers.get(identifier);
     if (!target)
       throw new Error(
         `${identifier}: Service is not registered within the global scope`,
@@ -405,6 +1160,39 @@ export function Container(options?: { maxPlugins?: number }): BContainer {
     return instance;
   }
 
+  // Helper function to call a service function through the invocation hooks
+  function invoke(invocation: BInvocation, fn: unknown) {
+    const { instance, args } = invocation;
+    for (let i = 0; i < pluginCounter; i++) {
+      const plugin = pluginArray[i];
+      if (plugin.onBeforeInvoke) plugin.onBeforeInvoke(invocation);
+    }
+    const onResult = (result: unknown) => {
+      for (let i = 0; i < pluginCounter; i++) {
+        const plugin = pluginArray[i];
+        if (plugin.onAfterInvoke) plugin.onAfterInvoke(invocation, result);
+      }
+      return result;
+    };
+    const onError = (error: unknown) => {
+      for (let i = 0; i < pluginCounter; i++) {
+        const plugin = pluginArray[i];
+        if (plugin.onInvokeError) plugin.onInvokeError(invocation, error);
+      }
+      throw error;
+    };
+    let result: unknown;
+    try {
+      result = invocations.run(invocation, () =>
+        (fn as (...args: unknown[]) => unknown).apply(instance, args),
+      );
+    } catch (e) {
+      return onError(e);
+    }
+    if (result instanceof Promise) return result.then(onResult, onError);
+    return onResult(result);
+  }
+
   // Helper function to create a service instance
   function makeService<T>(
     target: T,
@@ -415,6 +1203,19 @@ export function Container(options?: { maxPlugins?: number }): BContainer {
     const instance = makeSimple(target, serviceIdentifier);
     const bus = UnaryBus();
 
+    // Apply partial overrides on top of the blueprint
+    const implementation = overrides.get(metadata);
+    if (implementation && !isServiceClass(implementation)) {
+      Object.entries(implementation).forEach(([key, value]) => {
+        Object.defineProperty(instance, key, {
+          configurable: true,
+          enumerable: typeof value !== 'function',
+          writable: true,
+          value,
+        });
+      });
+    }
+
     Object.defineProperty(instance, BusSymbol, {
       configurable: false,
       enumerable: false,
@@ -436,6 +1237,15 @@ export function Container(options?: { maxPlugins?: number }): BContainer {
       get: () => self,
     });
 
+    // Injected services are resolved lazily through the container
+    getInjections(metadata).forEach(({ propertyName, target, scope }) => {
+      Object.defineProperty(instance, propertyName, {
+        configurable: false,
+        enumerable: false,
+        get: () => self.getByClass(target, scope),
+      });
+    });
+
     Object.defineProperty(instance, 'dispatch', {
       configurable: false,
       enumerable: false,
@@ -447,14 +1257,163 @@ export function Container(options?: { maxPlugins?: number }): BContainer {
       value: bus.subscribe,
     });
 
+    // Values are kept in the vault, so their assignments can be observed by plugins
+    const vault = getVaultFromInstance(instance);
+    ValRegistry.collect(metadata).forEach((propertyName) => {
+      vault.set(propertyName, { value: instance[propertyName] });
+      Object.defineProperty(instance, propertyName, {
+        configurable: true,
+        enumerable: true,
+        get: () => {
+          trackRead(instance, propertyName);
+          const entry = vault.get(propertyName);
+          if (entry?.read) return entry.read(entry.value);
+          return entry?.value;
+        },
+        set(value) {
+          const entry = vault.get(propertyName);
+          if (!entry) return;
+          const previousValue = entry.value;
+          entry.value = value;
+          // Remember the value preceding the batch, so it can be rolled back
+          const frame = getBatch();
+          if (frame) {
+            let values = frame.previousValues.get(instance);
+            if (!values) {
+              values = new Map();
+              frame.previousValues.set(instance, values);
+            }
+            if (!values.has(propertyName))
+              values.set(propertyName, previousValue);
+          }
+          for (let i = 0; i < pluginCounter; i++) {
+            const plugin = pluginArray[i];
+            if (plugin.onPropertyChange)
+              plugin.onPropertyChange(
+                metadata,
+                instance,
+                propertyName,
+                value,
+                previousValue,
+              );
+          }
+          if (Object.is(value, previousValue)) return;
+          // Within a batch, watchers are called once it is committed, see `flushWatchers`
+          if (frame) return;
+          notifyWatchers(instance, propertyName, value, previousValue);
+        },
+      });
+    });
+
+    // Watchers declared by the service are bound to the instance
+    let watchTarget: BServiceClass | undefined = metadata;
+    while (watchTarget) {
+      WatchRegistry.get(watchTarget)?.forEach(
+        ({ propertyName, properties, handler, options: watchOptions }) => {
+          if (Object.prototype.hasOwnProperty.call(instance, propertyName))
+            return;
+          Object.defineProperty(instance, propertyName, {
+            configurable: true,
+            enumerable: false,
+            writable: false,
+            value: addWatcher(
+              instance,
+              properties,
+              (value, previousValue, changedName) =>
+                handler.call(instance, value, previousValue, changedName),
+              watchOptions,
+            ),
+          });
+        },
+      );
+      watchTarget = watchTarget.extends as BServiceClass | undefined;
+    }
+
+    // Invocations of functions are routed through the plugins
+    const wrappers = getWrappers(metadata);
+    const chains = new Map<string, string[]>();
+    wrapperChains.set(instance, chains);
+    const properties = new Set(FuncRegistry.collect(metadata));
+    wrappers.forEach((_, propertyName) => properties.add(propertyName));
+    properties.forEach((propertyName) => {
+      const overridden = Object.prototype.hasOwnProperty.call(
+        instance,
+        propertyName,
+      );
+      const fn = instance[propertyName];
+      const wrapper = wrappers.get(propertyName);
+      if (typeof fn !== 'function') {
+        if (!wrapper) return;
+        throw new TypeError(
+          serviceIdentifier,
+          propertyName,
+          `${wrapper.kinds[0]} plugin only works on functions`,
+        );
+      }
+      let wrapped: BWrappedFunction = function (...args: unknown[]) {
+        // Read the blueprint on each call, so replaced blueprints apply to live instances
+        const next = overridden ? fn : metadata.blueprint[propertyName];
+        return invoke(
+          {
+            target: metadata,
+            instance,
+            propertyName,
+            args,
+            parent: invocations.get(),
+          },
+          next,
+        );
+      };
+      // Compose the wrappers from the innermost to the outermost one
+      const chain: string[] = [];
+      wrapper?.kinds
+        .slice()
+        .reverse()
+        .forEach((kind) => {
+          for (let i = 0; i < pluginCounter; i++) {
+            const plugin = pluginArray[i];
+            if (!plugin.onWrap) continue;
+            const next = wrapped;
+            const result = plugin.onWrap(
+              wrapper.target,
+              instance,
+              propertyName,
+              kind,
+              next,
+            );
+            if (!result) continue;
+            inheritHandles(next, result);
+            wrapped = result;
+            chain.unshift(kind);
+            break;
+          }
+        });
+      chains.set(propertyName, chain);
+      Object.defineProperty(instance, propertyName, {
+        configurable: true,
+        enumerable: false,
+        writable: false,
+        value: wrapped,
+      });
+    });
+
     Object.defineProperty(instance, 'reset', {
       configurable: false,
       enumerable: false,
       writable: false,
       value: () => {
+        const initial = isServiceClass(implementation)
+          ? undefined
+          : (implementation as Record<string, unknown> | undefined);
         Object.keys(instance).forEach((key) => {
-          instance[key] = structuredClone(metadata.blueprint[key]);
+          instance[key] = cloneValue(
+            initial && key in initial ? initial[key] : metadata.blueprint[key],
+          );
         });
+        for (let i = 0; i < pluginCounter; i++) {
+          const plugin = pluginArray[i];
+          if (plugin.onReset) plugin.onReset(metadata, instance);
+        }
       },
     });
 
@@ -472,7 +1431,17 @@ export function Container(options?: { maxPlugins?: number }): BContainer {
             }
           }
         }
-        services.delete(instance[IdentifierSymbol]);
+        bus.clear();
+        watchers
+          .get(instance)
+          ?.forEach((set) => set.forEach((watcher) => watcher.cancel()));
+        watchers.delete(instance);
+        // The key may already belong to a replacing instance
+        const key = instance[IdentifierSymbol];
+        if (services.get(key)?.instance === instance) {
+          services.delete(key);
+          references.delete(key);
+        }
       },
     });
 
@@ -481,3 +1450,34 @@ export function Container(options?: { maxPlugins?: number }): BContainer {
 
   return self;
 }
+
+type BBatchFrame = {
+  events: BNotifyEvent[];
+  previousValues: Map<object, Map<string, unknown>>;
+  parent?: BBatchFrame;
+  settled: boolean;
+};
+
+type BWatcher = {
+  notify(value: unknown, previousValue: unknown, propertyName: string): void;
+  cancel(): void;
+};
+
+// Keep the handles attached by inner wrappers (e.g. `clear` of a cached function) reachable
+function inheritHandles(from: BWrappedFunction, to: BWrappedFunction) {
+  if (from === to) return;
+  Object.getOwnPropertyNames(from).forEach((key) => {
+    if (Object.prototype.hasOwnProperty.call(to, key)) return;
+    const descriptor = Object.getOwnPropertyDescriptor(from, key);
+    if (descriptor) Object.defineProperty(to, key, descriptor);
+  });
+}
+
+// Values that can not be cloned (e.g. functions) are restored by reference
+function cloneValue<T>(value: T): T {
+  try {
+    return structuredClone(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,54 @@
+import { MakeArrayRegistry } from '../registries';
+import type { BDescriptor } from '../service';
+
+/**
+ * Type definition for a computed property in a service.
+ */
+export type BComputedDefinition = {
+  propertyName: string;
+  fn: (...args: any[]) => unknown;
+};
+
+/**
+ * A custom registry for computed definitions.
+ * Stores the functions deriving the value of computed properties.
+ */
+export const ComputedRegistry = MakeArrayRegistry<BComputedDefinition>();
+
+/**
+ * A decorator function to define a value derived from other signals.
+ *
+ * @description
+ * The function is called with the service instance as `this`. The properties it reads, including the properties of
+ * injected services, are tracked as its dependencies. The result is memoized and only computed again once a
+ * signal it reads notifies a change, or a plain `val` property it reads is assigned. When the result changes,
+ * the computed property notifies its own change as a signal would, so `useSignal` re-renders the components reading it.
+ * The type of the value is passed explicitly, as the function usually references the type of its own service.
+ *
+ * @example
+ * ```tsx
+ * import { Service, val } from "beatlejs";
+ * import { computed, signal } from "beatlejs/react";
+ *
+ * const $Cart = Service({ identifier: 'Cart' }, {
+ *   items: signal(val<{ price: number }[]>([])),
+ *   total: computed<number>(total),
+ * });
+ *
+ * function total(this: typeof $Cart): number {
+ *   return this.items.reduce((sum, item) => sum + item.price, 0);
+ * }
+ * ```
+ *
+ * @param fn The function deriving the value.
+ * @returns {BDescriptor<T>} A descriptor function that registers the computed property on the service definition.
+ */
+export function computed<T>(fn: (...args: never[]) => unknown): BDescriptor<T> {
+  return function (target, key) {
+    ComputedRegistry.register(target, {
+      propertyName: key,
+      fn: fn as BComputedDefinition['fn'],
+    });
+    return undefined as T;
+  };
+}
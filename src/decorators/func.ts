@@ -1,5 +1,12 @@
+import { MakeSetRegistry } from '../registries';
 import type { BDescriptor } from '../service';
 
+/**
+ * A custom registry for function definitions.
+ * Stores the properties that hold functions, so the container can route their invocations through plugins.
+ */
+export const FuncRegistry = MakeSetRegistry<string>();
+
 /**
  * Defines functions for services using `func`.
  *
@@ -29,7 +36,8 @@ import type { BDescriptor } from '../service';
  * @returns {BDescriptor<T>} A descriptor function that attaches the provided function to the service definition.
  */
 export function func<T>(next: T): BDescriptor<T> {
-  return function () {
+  return function (target, key) {
+    FuncRegistry.register(target, key);
     return next;
   };
 }
@@ -0,0 +1,88 @@
+import { MakeArrayRegistry } from '../registries';
+import type { BDescriptor, BServiceClass } from '../service';
+
+/**
+ * Type definition for an injected property in a service.
+ * Associates a property with the service it resolves to.
+ */
+export type BInjectDefinition = {
+  propertyName: string;
+  target: unknown;
+  scope?: string;
+};
+
+/**
+ * A custom registry for injected service definitions.
+ * Stores which properties of a service resolve to other services.
+ */
+export const InjectRegistry = MakeArrayRegistry<BInjectDefinition>();
+
+/**
+ * Injects another service into a service using `inject`.
+ *
+ * @description
+ * The injected service is resolved lazily through the container the first time the property is read,
+ * so the dependency is part of the service blueprint instead of being hidden inside a `func`.
+ * Pass a function returning the service when it is declared further down the module.
+ * Services can not inject each other, even through such functions: the container initializes
+ * the dependencies of a service first, so resolving a service on a circular injection fails with a
+ * `DependencyCycleError` (containers skip such services when creating every registered service upfront).
+ *
+ * @example
+ * ```tsx
+ * import { Service, func, inject } from "beatlejs";
+ *
+ * const $ServiceB = Service({ identifier: 'ServiceB' }, {
+ *   greet: func(() => console.log('hello from ServiceB')),
+ * });
+ *
+ * const $ServiceA = Service({ identifier: 'ServiceA' }, {
+ *   serviceB: inject($ServiceB),
+ *   greet: func(greet),
+ * });
+ *
+ * function greet(this: typeof $ServiceA) {
+ *   this.serviceB.greet();
+ * }
+ * ```
+ *
+ * @param target - The service class to inject, or a function returning it.
+ * @param scope - Optional scope of the injected service instance.
+ * @returns {BDescriptor<T>} A descriptor function that registers the dependency on the service definition.
+ */
+export function inject<T>(
+  target: T | (() => T),
+  scope?: string,
+): BDescriptor<T> {
+  return function (service, propertyName) {
+    InjectRegistry.register(service, { propertyName, target, scope });
+    return undefined as T;
+  };
+}
+
+/**
+ * Returns the resolved injections of a service, including the ones of the service it extends.
+ *
+ * @param target The service class.
+ */
+export function getInjections(target: BServiceClass) {
+  const output: {
+    propertyName: string;
+    target: BServiceClass;
+    scope?: string;
+  }[] = [];
+  let current: BServiceClass | undefined = target;
+  while (current) {
+    InjectRegistry.get(current)?.forEach(({ propertyName, target, scope }) => {
+      output.push({
+        propertyName,
+        target: (typeof target === 'function'
+          ? target()
+          : target) as BServiceClass,
+        scope,
+      });
+    });
+    current = current.extends as BServiceClass | undefined;
+  }
+  return output;
+}
@@ -1,5 +1,18 @@
-import { MakeSetRegistry } from "../registries";
-import { BDescriptor } from "../service";
+import type { BEquality } from "../equality";
+import { MakeArrayRegistry, MakeSetRegistry } from "../registries";
+import { BDescriptor, BServiceClass } from "../service";
+
+/**
+ * Options for configuring a signal.
+ * - `deep`: Notify the changes made within arrays, plain objects, maps and sets held by the signal.
+ * - `equals`: Decides whether an assigned value equals the previous one, in which case nothing is notified.
+ */
+export type BSignalOptions = {
+  /** Notify the nested changes of the value, not only its reassignment */
+  deep?: boolean;
+  /** Comparison of the assigned value with the previous one, strict equality by default */
+  equals?: BEquality;
+};
 
 /**
  * A custom registry for signal definitions.
@@ -7,19 +20,68 @@ import { BDescriptor } from "../service";
  */
 export const SignalRegistry = MakeSetRegistry<string>();
 
+/**
+ * A custom registry for the options of signals.
+ */
+export const SignalOptionsRegistry = MakeArrayRegistry<
+  BSignalOptions & {
+    propertyName: string;
+  }
+>();
+
 /**
  * A decorator function to register a service method for signal broadcasting.
  * It registers the method in the SignalRegistry to enable signal notifications when the property changes.
  *
  * @example
+ * ```tsx
+ * import { Service, val } from "beatlejs";
+ * import { signal } from "beatlejs/react";
  *
+ * const $Todos = Service({ identifier: 'Todos' }, {
+ *   filter: signal(val('all')),
+ *   // `this.items.push(item)` or `this.items[0].done = true` notify a change of `items.0.done`
+ *   items: signal(val<{ done: boolean }[]>([]), { deep: true }),
+ *   // Assigning a structurally identical object does not notify
+ *   query: signal(val({ page: 1, search: '' }), { equals: 'shallow' }),
+ * });
+ * ```
  *
  * @param next The original method descriptor.
+ * @param options The signal options (optional).
  */
-export function signal<T>(next: BDescriptor<T>): BDescriptor<T> {
+export function signal<T>(
+  next: BDescriptor<T>,
+  options?: BSignalOptions,
+): BDescriptor<T> {
   return function (target, key) {
     // Register the method in the SignalRegistry to track signal events
     SignalRegistry.register(target, key);
+    if (options) {
+      SignalOptionsRegistry.register(target, { propertyName: key, ...options });
+    }
     return next(target, key); // Return the original method descriptor
   };
 }
+
+
+/**
+ * Returns the options of a signal, including the signals of the services it extends.
+ *
+ * @param target The service class.
+ * @param propertyName The name of the signal.
+ */
+export function getSignalOptions(
+  target: BServiceClass,
+  propertyName: string,
+): BSignalOptions | undefined {
+  let current: BServiceClass | undefined = target;
+  while (current) {
+    const options = SignalOptionsRegistry.get(current)?.find(
+      (item) => item.propertyName === propertyName,
+    );
+    if (options) return options;
+    current = current.extends as BServiceClass | undefined;
+  }
+  return undefined;
+}
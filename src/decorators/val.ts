@@ -1,5 +1,12 @@
+import { MakeSetRegistry } from "../registries";
 import { BDescriptor } from "../service";
 
+/**
+ * A custom registry for value definitions.
+ * Stores the properties that hold state, so the container can observe their changes.
+ */
+export const ValRegistry = MakeSetRegistry<string>();
+
 /**
  * Defines primitive values within services using `val`.
  *
@@ -22,7 +29,8 @@ import { BDescriptor } from "../service";
  * @returns {BDescriptor<T>} A descriptor function that attaches the provided value to the service definition.
  */
 export function val<T>(next: T): BDescriptor<T> {
-  return function () {
+  return function (target, key) {
+    ValRegistry.register(target, key);
     return next;
   };
 }
@@ -0,0 +1,89 @@
+import type { BUnsubscribe } from '../eventBus';
+import { MakeArrayRegistry } from '../registries';
+import type { BDescriptor } from '../service';
+
+/**
+ * A function called when a watched property changes.
+ *
+ * @param value - The new value of the property.
+ * @param previousValue - The value of the property before the change.
+ * @param propertyName - The name of the changed property.
+ */
+export type BWatchHandler<V = unknown> = (
+  value: V,
+  previousValue: V,
+  propertyName: string,
+) => void;
+
+/**
+ * Options for configuring a watcher.
+ * - `immediate`: Call the handler right away with the current value.
+ * - `debounceMs`: Wait for the changes to settle before calling the handler.
+ */
+export type BWatchOptions = {
+  /** Call the handler right away with the current value */
+  immediate?: boolean;
+  /** Delay in milliseconds to wait for the changes to settle */
+  debounceMs?: number;
+};
+
+/**
+ * Type definition for a watcher declared in a service.
+ */
+export type BWatchDefinition = {
+  propertyName: string;
+  properties: string[];
+  handler: (...args: any[]) => unknown;
+  options?: BWatchOptions;
+};
+
+/**
+ * A custom registry for watcher definitions.
+ * Stores the handlers to call when properties of a service change.
+ */
+export const WatchRegistry = MakeArrayRegistry<BWatchDefinition>();
+
+/**
+ * Reacts to the changes of `val` properties of a service using `watch`.
+ *
+ * @description
+ * The handler is called with the service instance as `this`, the new value, the previous value and the
+ * name of the changed property. The property holding the watcher is a function that stops watching,
+ * watchers are also stopped when the service is destroyed.
+ * Within a batch or a transaction, the handler is called once it is committed, see `BContainer.batch`.
+ *
+ * @example
+ * ```tsx
+ * import { Service, val, watch } from "beatlejs";
+ *
+ * const $Cart = Service({ identifier: 'Cart' }, {
+ *   count: val(0),
+ *   items: val<string[]>([]),
+ *   onChange: watch(['count', 'items'], onChange, { debounceMs: 100 }),
+ * });
+ *
+ * function onChange(this: typeof $Cart, value: unknown, previousValue: unknown, propertyName: string) {
+ *   console.log(`${propertyName} changed`, previousValue, value);
+ * }
+ * ```
+ *
+ * @param properties - The names of the watched properties.
+ * @param handler - The function to call on changes.
+ * @param options - The watcher options.
+ * @returns {BDescriptor<BUnsubscribe>} A descriptor function that registers the watcher on the service definition.
+ */
+export function watch(
+  properties: string[],
+  handler: (...args: never[]) => unknown,
+  options?: BWatchOptions,
+): BDescriptor<BUnsubscribe> {
+  return function (target, key) {
+    WatchRegistry.register(target, {
+      propertyName: key,
+      properties,
+      handler: handler as BWatchDefinition['handler'],
+      options,
+    });
+    return undefined as unknown as BUnsubscribe;
+  };
+}
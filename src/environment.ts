@@ -0,0 +1,114 @@
+/**
+ * Whether the code runs in a browser window, as opposed to Node, a worker or server rendering.
+ */
+export function isBrowser() {
+  return typeof window !== 'undefined' && typeof document !== 'undefined';
+}
+
+/**
+ * Returns the browser window, or undefined outside of a browser.
+ */
+export function getWindow(): Window | undefined {
+  return isBrowser() ? window : undefined;
+}
+
+/**
+ * Encodes bytes as a base64 string, with `btoa` or the Node `Buffer`.
+ *
+ * @param bytes The bytes to encode.
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  if (typeof btoa === 'function') {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++)
+      binary += String.fromCharCode(bytes[i]);
+    return btoa(binary);
+  }
+  return Buffer.from(bytes).toString('base64');
+}
+
+/**
+ * Decodes a base64 string into bytes, with `atob` or the Node `Buffer`.
+ *
+ * @param data The base64 string.
+ */
+export function decodeBase64(data: string): Uint8Array {
+  if (typeof atob === 'function') {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+  }
+  return new Uint8Array(Buffer.from(data, 'base64'));
+}
+
+/**
+ * A value carried along a call and, where `AsyncLocalStorage` is available, along its asynchronous continuations.
+ */
+export type BAsyncContext<T> = {
+  /**
+   * Returns the value of the call currently running, if any.
+   */
+  get(): T | undefined;
+  /**
+   * Runs a function with a value, the calls made by the function see it through `get`.
+   *
+   * @param value The value to carry.
+   * @param fn The function to run.
+   * @returns The result of the function.
+   */
+  run<R>(value: T, fn: () => R): R;
+};
+
+type BAsyncLocalStorage = new <T>() => {
+  getStore(): T | undefined;
+  run<R>(store: T, fn: () => R): R;
+};
+
+// Helper function to find `AsyncLocalStorage`, a global in some runtimes and a builtin module in Node
+function getAsyncLocalStorage() {
+  const scope = globalThis as unknown as {
+    AsyncLocalStorage?: BAsyncLocalStorage;
+    process?: { getBuiltinModule?(id: string): unknown };
+  };
+  if (scope.AsyncLocalStorage) return scope.AsyncLocalStorage;
+  const module = scope.process?.getBuiltinModule?.('node:async_hooks') as
+    | { AsyncLocalStorage?: BAsyncLocalStorage }
+    | undefined;
+  return module?.AsyncLocalStorage;
+}
+
+/**
+ * Whether values of an async context are carried through `await`, that is where `AsyncLocalStorage` is available.
+ */
+export function hasAsyncContext() {
+  return getAsyncLocalStorage() !== undefined;
+}
+
+/**
+ * Creates a context carrying a value along a call, through `await` where `AsyncLocalStorage` is available.
+ * Elsewhere (e.g. browsers), the value is only carried through the synchronous part of the call.
+ */
+export function createAsyncContext<T>(): BAsyncContext<T> {
+  const Storage = getAsyncLocalStorage();
+  if (Storage) {
+    const storage = new Storage<T>();
+    return {
+      get: () => storage.getStore(),
+      run: (value, fn) => storage.run(value, fn),
+    };
+  }
+  let current: T | undefined;
+  return {
+    get: () => current,
+    run(value, fn) {
+      const previous = current;
+      current = value;
+      try {
+        return fn();
+      } finally {
+        current = previous;
+      }
+    },
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Defines how two values of a property are compared.
+ * - `'shallow'`: Compares the entries of arrays, maps, sets and plain objects by identity.
+ * - `'deep'`: Compares the entries recursively.
+ * - A function returning whether both values are equal.
+ */
+export type BEquality =
+  | 'shallow'
+  | 'deep'
+  | ((a: unknown, b: unknown) => boolean);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+// Helper function to compare the entries of two collections of the same kind
+function compareEntries(
+  a: unknown,
+  b: unknown,
+  compare: (x: unknown, y: unknown) => boolean,
+): boolean | undefined {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => compare(item, b[i]));
+  }
+  if (a instanceof Map && b instanceof Map) {
+    if (a.size !== b.size) return false;
+    for (const [key, value] of a) {
+      if (!b.has(key) || !compare(value, b.get(key))) return false;
+    }
+    return true;
+  }
+  if (a instanceof Set && b instanceof Set) {
+    if (a.size !== b.size) return false;
+    for (const value of a) {
+      if (!b.has(value)) return false;
+    }
+    return true;
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    if (keys.length !== Object.keys(b).length) return false;
+    return keys.every(
+      (key) =>
+        Object.prototype.hasOwnProperty.call(b, key) && compare(a[key], b[key]),
+    );
+  }
+  return undefined;
+}
+
+/**
+ * Compares two values, and the entries of arrays, maps, sets and plain objects by identity.
+ *
+ * @param a The first value.
+ * @param b The second value.
+ */
+export function shallowEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  return compareEntries(a, b, Object.is) ?? false;
+}
+
+/**
+ * Compares two values recursively, including dates and circular structures.
+ *
+ * @param a The first value.
+ * @param b The second value.
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  const visited = new WeakMap<object, object>();
+
+  function compare(x: unknown, y: unknown): boolean {
+    if (Object.is(x, y)) return true;
+    if (x instanceof Date && y instanceof Date)
+      return x.getTime() === y.getTime();
+    if (typeof x !== 'object' || typeof y !== 'object' || !x || !y)
+      return false;
+    // Assume a pair being compared is equal, so circular references end
+    if (visited.get(x) === y) return true;
+    visited.set(x, y);
+    return compareEntries(x, y, compare) ?? false;
+  }
+
+  return compare(a, b);
+}
+
+/**
+ * Returns the function comparing values for the given equality, strict equality by default.
+ *
+ * @param equality The equality option.
+ */
+export function getEqualityFunction(
+  equality?: BEquality,
+): (a: unknown, b: unknown) => boolean {
+  if (equality === 'shallow') return shallowEqual;
+  if (equality === 'deep') return deepEqual;
+  if (typeof equality === 'function') return equality;
+  return (a, b) => a === b;
+}
@@ -0,0 +1,7 @@
+export class AsyncTransactionError extends Error {
+  constructor(public readonly method: string) {
+    super(
+      `AsyncTransactionError: ${method} returned a promise, transactions can only span await where AsyncLocalStorage is available`,
+    );
+  }
+}
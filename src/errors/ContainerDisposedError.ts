@@ -0,0 +1,7 @@
+export class ContainerDisposedError extends Error {
+  constructor(public readonly operation: string) {
+    super(
+      `ContainerDisposedError: Cannot call ${operation} on a disposed container`,
+    );
+  }
+}
@@ -0,0 +1,7 @@
+export class DependencyCycleError extends Error {
+  constructor(public readonly path: string[]) {
+    super(
+      `DependencyCycleError: Circular dependency detected: ${path.join(' → ')}`,
+    );
+  }
+}
@@ -0,0 +1,10 @@
+export class PersistCodecError extends Error {
+  constructor(
+    public readonly codec: string,
+    public readonly key: string,
+    reason: string,
+    public readonly cause?: unknown,
+  ) {
+    super(`PersistCodecError: ${codec} failed to decode ${key}: ${reason}`);
+  }
+}
@@ -69,7 +69,9 @@ export function EventBus<T, M>() {
       const listeners = getListeners(type);
       if (listeners.length) {
         await Promise.all(
-          listeners.map((listener) => Promise.resolve(listener(message))),
+          listeners
+            .slice()
+            .map((listener) => Promise.resolve(listener(message))),
         );
       }
     },
@@ -83,12 +85,11 @@ export function EventBus<T, M>() {
     subscribe(type: T, listener: BListener<M>): BUnsubscribe {
       const listeners = getListeners(type);
       listeners.push(listener);
-      return () =>
-        Promise.resolve(() => {
-          const idx = listeners.indexOf(listener);
-          if (idx === -1) return;
-          listeners.splice(idx, 1);
-        });
+      return () => {
+        const idx = listeners.indexOf(listener);
+        if (idx === -1) return;
+        listeners.splice(idx, 1);
+      };
     },
   };
 }
@@ -100,18 +101,24 @@ export function UnaryBus<M>() {
     async dispatch(message: M) {
       if (!listeners.length) return;
       await Promise.all(
-        listeners.map((listener) => Promise.resolve(listener(message))),
+        listeners
+          .slice()
+          .map((listener) => Promise.resolve(listener(message))),
       );
     },
     subscribe(listener: BListener<M>): BUnsubscribe {
       listeners.push(listener);
       return () => {
-        Promise.resolve(() => {
-          const idx = listeners.indexOf(listener);
-          if (idx === -1) return;
-          listeners.splice(idx, 1);
-        });
+        const idx = listeners.indexOf(listener);
+        if (idx === -1) return;
+        listeners.splice(idx, 1);
       };
     },
+    /**
+     * Removes every listener of the bus.
+     */
+    clear() {
+      listeners.splice(0, listeners.length);
+    },
   };
 }
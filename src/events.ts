@@ -1,12 +1,44 @@
+import type { BInvocation } from "./plugin";
 import { BServiceClass, BServiceInstance } from "./service";
 
 export const NotifyEventId = 0;
+export const BatchEventId = 1;
 
 export type BNotifyEvent = {
   type: typeof NotifyEventId;
   propertyName: string;
   value: unknown;
+  previousValue?: unknown;
+  /** Path of the nested field that changed within a deep signal (e.g. `items.3.name`) */
+  path?: string;
   target: BServiceClass;
   isSimilar: boolean;
   instance: BServiceInstance<unknown>
+  /** The `func` call that raised the notification, if any */
+  invocation?: BInvocation;
 };
+
+/**
+ * The notifications raised on a service instance within a batch, flushed at once.
+ * Notifications of the same property are coalesced into one.
+ */
+export type BBatchEvent = {
+  type: typeof BatchEventId;
+  target: BServiceClass;
+  instance: BServiceInstance<unknown>;
+  events: BNotifyEvent[];
+};
+
+/**
+ * Returns the notifications carried by a message of a bus,
+ * whether it is a single notification or a batch of them.
+ *
+ * @param message The message received by a bus listener.
+ */
+export function getNotifyEvents(message: unknown): BNotifyEvent[] {
+  if (!message || typeof message !== 'object' || !('type' in message))
+    return [];
+  if (message.type === NotifyEventId) return [message as BNotifyEvent];
+  if (message.type === BatchEventId) return (message as BBatchEvent).events;
+  return [];
+}
@@ -0,0 +1,95 @@
+import { getInjections } from './decorators/inject';
+import { DependencyCycleError } from './errors/DependencyCycleError';
+import type { BServiceClass } from './service';
+
+/**
+ * Type definition for the dependency graph.
+ * Maps every service to the services it depends on.
+ */
+export type BDependencyGraph = Map<BServiceClass, Set<BServiceClass>>;
+
+/**
+ * Builds the dependency graph of the given services from their declared injections.
+ * Services that are only reachable as dependencies are included as well.
+ *
+ * @param services The services to start from.
+ * @returns The dependency graph.
+ */
+export function buildDependencyGraph(
+  services: Iterable<BServiceClass>,
+): BDependencyGraph {
+  const graph: BDependencyGraph = new Map();
+  const queue = Array.from(services);
+  while (queue.length) {
+    const service = queue.shift() as BServiceClass;
+    if (graph.has(service)) continue;
+    const dependencies = new Set(
+      getInjections(service).map((dependency) => dependency.target),
+    );
+    graph.set(service, dependencies);
+    dependencies.forEach((dependency) => queue.push(dependency));
+  }
+  return graph;
+}
+
+/**
+ * Defines the options for sorting a dependency graph.
+ */
+export type BSortDependencyGraphOptions = {
+  /**
+   * Leave out the services on a circular dependency, along with their dependents,
+   * instead of throwing a `DependencyCycleError`.
+   * @default false
+   */
+  skipCycles?: boolean;
+};
+
+/**
+ * Sorts the services of a dependency graph in topological order,
+ * so every service comes after the services it depends on.
+ *
+ * @param graph The dependency graph.
+ * @param roots Optional services to start from (default is every service in the graph).
+ * @param options Optional sorting options.
+ * @returns The services in initialization order.
+ * @throws {DependencyCycleError} If the graph contains a circular dependency and `skipCycles` is not set.
+ */
+export function sortDependencyGraph(
+  graph: BDependencyGraph,
+  roots: Iterable<BServiceClass> = graph.keys(),
+  options?: BSortDependencyGraphOptions,
+): BServiceClass[] {
+  const output: BServiceClass[] = [];
+  const visited = new Set<BServiceClass>();
+  const skipped = new Set<BServiceClass>();
+  const path: BServiceClass[] = [];
+
+  // Returns false when the service is on a cycle or depends on one
+  function visit(service: BServiceClass): boolean {
+    if (skipped.has(service)) return false;
+    if (visited.has(service)) return true;
+    const index = path.indexOf(service);
+    if (index !== -1) {
+      if (options?.skipCycles) return false;
+      throw new DependencyCycleError(
+        [...path.slice(index), service].map((item) => item.identifier),
+      );
+    }
+    path.push(service);
+    let sorted = true;
+    graph.get(service)?.forEach((dependency) => {
+      if (!visit(dependency)) sorted = false;
+    });
+    path.pop();
+    if (!sorted) {
+      skipped.add(service);
+      return false;
+    }
+    visited.add(service);
+    output.push(service);
+    return true;
+  }
+
+  for (const service of roots) visit(service);
+  return output;
+}
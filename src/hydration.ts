@@ -0,0 +1,138 @@
+import { IdentifierSymbol, type BContainer } from './container';
+import { ValRegistry } from './decorators/val';
+import { TaggedRegistry } from './plugins/tagged/decorators';
+import { deserialize, serialize } from './serializers';
+import type { BServiceClass, BServiceInstance } from './service';
+import { getVaultFromInstance } from './vault';
+
+/**
+ * The serialized values of a service instance, keyed by the identifier of the instance.
+ */
+export type BDehydratedService = {
+  key: string;
+  version: number;
+  data: Record<string, unknown>;
+};
+
+/**
+ * The JSON-safe state of a container, produced by `dehydrate` and restored by `hydrate`.
+ */
+export type BDehydratedState = BDehydratedService[];
+
+/**
+ * Options of `dehydrate`.
+ * - `tags`: Only the properties tagged with one of the tags are included, see `tagged`.
+ */
+export type BDehydrateOptions = {
+  /** Tags of the included properties, every `val` property is included by default */
+  tags?: string[];
+};
+
+// Helper function to list the properties of a service carried by the state
+function getProperties(target: BServiceClass, tags?: string[]) {
+  const properties = ValRegistry.collect(target);
+  if (!tags) return properties;
+  const tagSet = new Set(tags);
+  const output = new Set<string>();
+  let current: BServiceClass | undefined = target;
+  while (current) {
+    TaggedRegistry.get(current)?.forEach(({ propertyName, tag }) => {
+      if (tagSet.has(tag) && properties.has(propertyName))
+        output.add(propertyName);
+    });
+    current = current.extends as BServiceClass | undefined;
+  }
+  return output;
+}
+
+/**
+ * Serializes the state of the services created by a container,
+ * e.g. to send the state rendered on the server to the browser.
+ *
+ * @example
+ * ```tsx
+ * import { Container, dehydrate } from "beatlejs";
+ *
+ * const container = Container();
+ * await container.getByClass($Products).load();
+ * const html = renderToString(<BeatleProvider container={container}><App /></BeatleProvider>);
+ * const state = JSON.stringify(await dehydrate(container));
+ * ```
+ *
+ * @param container The container to serialize.
+ * @param options Optional tags of the included properties.
+ * @returns A promise resolving to the JSON-safe state of the container.
+ */
+export async function dehydrate(
+  container: BContainer,
+  options?: BDehydrateOptions,
+): Promise<BDehydratedState> {
+  const output: BDehydratedState = [];
+  for (const item of Array.from(container.getServices())) {
+    const vault = getVaultFromInstance(item.instance);
+    const data: Record<string, unknown> = {};
+    let isServiceExportable = false;
+    for (const propertyName of getProperties(item.class, options?.tags)) {
+      const value = await serialize(vault.get(propertyName)?.value);
+      if (typeof value === 'undefined') continue;
+      data[propertyName] = value;
+      isServiceExportable = true;
+    }
+    if (!isServiceExportable) continue;
+    output.push({
+      key: item.instance[IdentifierSymbol],
+      version: item.class.version ?? 1,
+      data,
+    });
+  }
+  return output;
+}
+
+/**
+ * Restores the state produced by `dehydrate` into a container, before it is first rendered.
+ *
+ * @description
+ * Values are written without notifying signals, watchers or plugins, so nothing renders twice while hydrating.
+ * Services missing from the container are created, except scoped ones.
+ * Services whose version differs from the dehydrated one are skipped.
+ *
+ * @example
+ * ```tsx
+ * import { Container, hydrate } from "beatlejs";
+ *
+ * const container = Container();
+ * hydrate(container, window.__BEATLE_STATE__);
+ * hydrateRoot(root, <BeatleProvider container={container}><App /></BeatleProvider>);
+ * ```
+ *
+ * @param container The container to restore.
+ * @param state The state produced by `dehydrate`.
+ */
+export function hydrate(container: BContainer, state: BDehydratedState) {
+  const map = new Map<string, BServiceClass>();
+  for (const item of container.getServices())
+    map.set(item.instance[IdentifierSymbol], item.class);
+  container.getRegistry().services.forEach((target) => {
+    if (!map.has(target.identifier)) map.set(target.identifier, target);
+  });
+
+  state.forEach(({ key, version, data }) => {
+    const target = map.get(key);
+    if (!target || (target.version ?? 1) !== version) return;
+    const scope =
+      key === target.identifier
+        ? undefined
+        : key.slice(target.identifier.length + 1);
+    const instance = container.getByClass(
+      target,
+      scope,
+    ) as unknown as BServiceInstance<unknown>;
+    const vault = getVaultFromInstance(instance);
+    const properties = ValRegistry.collect(target);
+    Object.entries(data).forEach(([propertyName, value]) => {
+      const entry = vault.get(propertyName);
+      if (!entry || !properties.has(propertyName)) return;
+      entry.value = deserialize(value);
+    });
+  });
+}
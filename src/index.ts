@@ -1,18 +1,25 @@
 export { val } from './decorators/val';
 export { func } from './decorators/func';
+export { inject } from './decorators/inject';
+export { watch } from './decorators/watch';
+export type { BWatchHandler, BWatchOptions } from './decorators/watch';
 
 // Plugin
-export type { BPlugin, BPluginClass } from './plugin';
+export type { BInvocation, BPlugin, BPluginClass } from './plugin';
 export {
+  createRegistry,
   extendPlugins,
+  GlobalRegistry,
   MakeArrayRegistry,
   MakeSetRegistry,
 } from './registries';
+export type { BRegistry, BRegistryOptions } from './registries';
 
 // Service
 export { Service } from './service';
 export type {
   BDescriptor,
+  BMigration,
   BServiceClass,
   BServiceDefinition,
   BServiceInstance,
@@ -22,5 +29,29 @@ export type {
 
 // Container
 export { Container } from './container';
-export type { BContainer } from './container';
+export type {
+  BChildContainerOptions,
+  BContainer,
+  BContainerOptions,
+  BOverride,
+  BOverrides,
+  BScope,
+  BServiceTuple,
+} from './container';
+export { buildDependencyGraph, sortDependencyGraph } from './graph';
+export type { BDependencyGraph, BSortDependencyGraphOptions } from './graph';
+export { DependencyCycleError } from './errors/DependencyCycleError';
+export { ContainerDisposedError } from './errors/ContainerDisposedError';
+export { PersistCodecError } from './errors/PersistCodecError';
+export { AsyncTransactionError } from './errors/AsyncTransactionError';
+export { dehydrate, hydrate } from './hydration';
+export type {
+  BDehydratedService,
+  BDehydratedState,
+  BDehydrateOptions,
+} from './hydration';
+export { deepEqual, shallowEqual } from './equality';
+export type { BEquality } from './equality';
+export { getWrappers, WrapperRegistry } from './wrappers';
+export type { BWrappedFunction, BWrapperDefinition } from './wrappers';
 //
@@ -2,6 +2,7 @@ import { useContext, useEffect, useMemo } from 'react';
 import type { BContainer } from '../../container';
 import { BeatleContext } from './context';
 import { callEffects } from './callEffects';
+import { retainScope } from './retainScope';
 
 export type BUseService<T> = {
   [K in keyof T]: T[K];
@@ -36,6 +37,7 @@ export type BUseService<T> = {
  *
  * @param {T[]} services - An array of service classes that need to be retrieved from the container.
  * @param {string} [scope] - Optional service identifier to specify a particular instance of the service.
+ *   Scoped instances are destroyed when the last component using them unmounts.
  * @returns {BUseService<T>} An array of service instances corresponding to the provided service classes.
  */
 export function useService<T extends unknown[]>(
@@ -50,7 +52,11 @@ export function useService<T extends unknown[]>(
       ) as unknown as BUseService<T>,
     [],
   );
-  useEffect(() => callEffects(container, services, serviceInstances), []);
+  useEffect(() => {
+    const subs = retainScope(container, services, scope);
+    subs.push(callEffects(container, services, serviceInstances));
+    return () => subs.forEach((un) => un());
+  }, []);
   return serviceInstances;
 }
 
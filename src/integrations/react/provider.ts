@@ -1,8 +1,12 @@
 import type { JSX, PropsWithChildren } from 'react';
 import { createElement } from 'react';
 import type { BContainer } from '../../container';
+import { hydrate, type BDehydratedState } from '../../hydration';
 import { BeatleContext } from './context';
 
+// The containers already hydrated, so a new state object on each render does not overwrite the client state
+const hydratedContainers = new WeakSet<BContainer>();
+
 /**
  * Provides the Beatle context within your React application.
  *
@@ -27,13 +31,34 @@ import { BeatleContext } from './context';
  * );
  * ```
  *
+ * When rendering on the server, pass the state produced by `dehydrate` as `initialState`,
+ * it is restored into the container before the children are rendered.
+ *
+ * ```tsx
+ * hydrateRoot(
+ *   document.getElementById("root")!,
+ *   <BeatleProvider container={container} initialState={window.__BEATLE_STATE__}>
+ *     <App />
+ *   </BeatleProvider>
+ * );
+ * ```
+ *
  * @param {BContainer} container - The Beatle container instance to be provided to the context.
+ * @param {BDehydratedState} [initialState] - Optional state produced by `dehydrate`, hydrated once per container.
  * @returns {JSX.Element} The BeatleProvider component wrapped around your application, providing context to all children.
  */
 export function BeatleProvider({
   container,
+  initialState,
   children,
-}: PropsWithChildren<{ container: BContainer }>): JSX.Element {
+}: PropsWithChildren<{
+  container: BContainer;
+  initialState?: BDehydratedState;
+}>): JSX.Element {
+  if (initialState && !hydratedContainers.has(container)) {
+    hydratedContainers.add(container);
+    hydrate(container, initialState);
+  }
   return (
     createElement(BeatleContext.Provider, {
       value: { container },
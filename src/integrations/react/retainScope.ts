@@ -0,0 +1,19 @@
+import type { BContainer } from '../../container';
+
+/**
+ * Retains the scoped instances of services for a mounted component.
+ *
+ * @param container The container holding the services.
+ * @param services The service classes used by the component.
+ * @param scope Optional scope of the instances, nothing is retained without one.
+ * @returns The functions releasing each retained instance.
+ */
+export function retainScope(
+  container: BContainer,
+  services: unknown[],
+  scope?: string,
+) {
+  if (!scope) return [];
+  const handle = container.scope(scope);
+  return services.map((service) => handle.retain(service));
+}
@@ -0,0 +1,175 @@
+/**
+ * Receives a change made within the value of a deep signal.
+ */
+export type BDeepChangeHandler = (
+  path: string,
+  value: unknown,
+  previousValue: unknown,
+) => void;
+
+// Raw values of the proxies, so proxies are never wrapped or stored twice
+const rawValues = new WeakMap<object, object>();
+
+const arrayMutators = new Set<PropertyKey>([
+  'copyWithin',
+  'fill',
+  'pop',
+  'push',
+  'reverse',
+  'shift',
+  'sort',
+  'splice',
+  'unshift',
+]);
+
+/**
+ * Returns the raw value of a proxy created by an observer.
+ *
+ * @param value The value, proxied or not.
+ */
+export function toRaw<T>(value: T): T {
+  if (typeof value !== 'object' || value === null) return value;
+  return (rawValues.get(value) as T | undefined) ?? value;
+}
+
+function isObservable(value: unknown): value is object {
+  if (typeof value !== 'object' || value === null) return false;
+  if (Array.isArray(value) || value instanceof Map || value instanceof Set)
+    return true;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Creates a function wrapping arrays, plain objects, maps and sets in proxies reporting the changes made within them.
+ * Nested values are wrapped when read, their changes are reported with the path leading to them.
+ * The same proxy is returned as long as the raw value stays the same.
+ *
+ * @param onChange The callback receiving the changes.
+ * @param batch Runs a function whose changes are reported at once (e.g. `Array.prototype.splice`).
+ * @returns A function proxying a value under the given path (the name of the signal for the root value).
+ */
+export function createObserver(
+  onChange: BDeepChangeHandler,
+  batch: <R>(fn: () => R) => R,
+) {
+  const cache = new Map<string, WeakMap<object, object>>();
+
+  function wrap(item: unknown, itemPath: string): unknown {
+    const raw = toRaw(item);
+    if (!isObservable(raw)) return raw;
+    let proxies = cache.get(itemPath);
+    if (!proxies) {
+      proxies = new WeakMap();
+      cache.set(itemPath, proxies);
+    }
+    let proxy = proxies.get(raw);
+    if (!proxy) {
+      proxy =
+        raw instanceof Map || raw instanceof Set
+          ? collectionProxy(raw, itemPath)
+          : objectProxy(raw, itemPath);
+      rawValues.set(proxy, raw);
+      proxies.set(raw, proxy);
+    }
+    return proxy;
+  }
+
+  function objectProxy(target: object, targetPath: string): object {
+    return new Proxy(target, {
+      get(obj, key, receiver) {
+        const item = Reflect.get(obj, key, receiver);
+        if (typeof key === 'symbol') return item;
+        if (Array.isArray(obj) && arrayMutators.has(key)) {
+          // Report the changes of a mutator at once
+          return (...args: unknown[]) =>
+            batch(() =>
+              (item as (...a: unknown[]) => unknown).apply(receiver, args),
+            );
+        }
+        return wrap(item, `${targetPath}.${key}`);
+      },
+      set(obj, key, item, receiver) {
+        const previousValue = Reflect.get(obj, key, receiver);
+        const raw = toRaw(item);
+        const result = Reflect.set(obj, key, raw);
+        if (typeof key !== 'symbol' && !Object.is(previousValue, raw))
+          onChange(`${targetPath}.${key}`, raw, previousValue);
+        return result;
+      },
+      deleteProperty(obj, key) {
+        if (!Object.prototype.hasOwnProperty.call(obj, key))
+          return Reflect.deleteProperty(obj, key);
+        const previousValue = Reflect.get(obj, key);
+        const result = Reflect.deleteProperty(obj, key);
+        if (typeof key !== 'symbol')
+          onChange(`${targetPath}.${key}`, undefined, previousValue);
+        return result;
+      },
+    });
+  }
+
+  function collectionProxy(
+    target: Map<unknown, unknown> | Set<unknown>,
+    targetPath: string,
+  ): object {
+    const proxy: object = new Proxy(target, {
+      get(obj, key) {
+        const isMap = obj instanceof Map;
+        switch (key) {
+          case 'get':
+            return (entry: unknown) =>
+              wrap(
+                (obj as Map<unknown, unknown>).get(entry),
+                `${targetPath}.${String(entry)}`,
+              );
+          case 'set':
+            return (entry: unknown, item: unknown) => {
+              const map = obj as Map<unknown, unknown>;
+              const previousValue = map.get(entry);
+              const raw = toRaw(item);
+              map.set(entry, raw);
+              if (!Object.is(previousValue, raw))
+                onChange(`${targetPath}.${String(entry)}`, raw, previousValue);
+              return proxy;
+            };
+          case 'add':
+            return (item: unknown) => {
+              const set = obj as Set<unknown>;
+              const raw = toRaw(item);
+              if (set.has(raw)) return proxy;
+              set.add(raw);
+              onChange(targetPath, raw, undefined);
+              return proxy;
+            };
+          case 'delete':
+            return (entry: unknown) => {
+              const previousValue = isMap ? obj.get(entry) : entry;
+              const result = obj.delete(entry);
+              if (result)
+                onChange(
+                  isMap ? `${targetPath}.${String(entry)}` : targetPath,
+                  undefined,
+                  previousValue,
+                );
+              return result;
+            };
+          case 'clear':
+            return () => {
+              if (!obj.size) return;
+              obj.clear();
+              onChange(targetPath, obj, undefined);
+            };
+        }
+        // Collections only work on their own internal slots
+        const item = Reflect.get(obj, key, obj);
+        return typeof item === 'function' ? item.bind(obj) : item;
+      },
+    });
+    return proxy;
+  }
+
+  return function observe<T>(value: T, path: string): T {
+    return wrap(value, path) as T;
+  };
+}
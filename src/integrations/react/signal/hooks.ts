@@ -1,8 +1,9 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
-import { BNotifyEvent, NotifyEventId } from '../../../events';
+import { getNotifyEvents } from '../../../events';
 import { BServiceInstance } from '../../../service';
 import { useContainer } from '../hooks';
 import { callEffects } from '../callEffects';
+import { retainScope } from '../retainScope';
 /**
  * Type that maps a list of service classes to instances, using an optional ID.
  */
@@ -16,6 +17,7 @@ export type BUseSignal<T> = {
  *
  * @param services The list of services to subscribe to.
  * @param scope Optional scope for a specific instance of a service.
+ *   Scoped instances are destroyed when the last component using them unmounts.
  */
 export function useSignal<T extends unknown[]>(
   services: [...T],
@@ -31,10 +33,9 @@ export function useSignal<T extends unknown[]>(
   );
   const [, setLocalState] = useState<number>(0); // State to track updated values
   const onMessage = useCallback(
-    (event: BNotifyEvent) => {
-      if (!event) return;
-      if (event.isSimilar) return;
-      if (event.type !== NotifyEventId) return;
+    (message: unknown) => {
+      // A batch of notifications re-renders once
+      if (getNotifyEvents(message).every((event) => event.isSimilar)) return;
       setLocalState((localState) => localState + 1);
     },
     [scope],
@@ -44,6 +45,7 @@ export function useSignal<T extends unknown[]>(
       const svc = service as BServiceInstance<unknown>;
       return svc.subscribe(onMessage);
     });
+    subs.push(...retainScope(container, services, scope));
     subs.push(callEffects(container, services, serviceInstances))
     return () => subs.forEach((un) => un());
   }, []);
@@ -1,4 +1,6 @@
 import './plugins';
 export { signal } from '../../../decorators/signal';
+export type { BSignalOptions } from '../../../decorators/signal';
+export { computed } from '../../../decorators/computed';
 export type { BUseSignal } from './hooks';
 export { useSignal } from './hooks';
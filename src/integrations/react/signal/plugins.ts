@@ -1,43 +1,234 @@
-import { SignalRegistry } from '../../../decorators/signal';
+import { ComputedRegistry } from '../../../decorators/computed';
+import {
+  getSignalOptions,
+  SignalOptionsRegistry,
+  SignalRegistry,
+} from '../../../decorators/signal';
+import { getEqualityFunction } from '../../../equality';
+import type { BUnsubscribe } from '../../../eventBus';
 import { extendPlugins } from '../../../registries';
+import type { BPlugin } from '../../../plugin';
 import type { BServiceClass, BServiceInstance } from '../../../service';
-import { getVaultFromInstance } from '../../../vault';
-import { BNotifyEvent, NotifyEventId } from '../../../events';
+import {
+  BNotifyEvent,
+  getNotifyEvents,
+  NotifyEventId,
+} from '../../../events';
+import { getVaultFromInstance, track, trackRead } from '../../../vault';
+import { createObserver, toRaw } from './deep';
 
-function SignalPlugin() {
+function SignalPlugin(): BPlugin {
   return {
-    async onCreate(target: BServiceClass, instance: BServiceInstance<unknown>) {
-      const definitions = SignalRegistry.get(target);
+    async onCreate(target: BServiceClass, ref: unknown) {
+      const definitions = SignalOptionsRegistry.get(target);
       if (!definitions) return;
+      const instance = ref as BServiceInstance<unknown>;
       const vault = getVaultFromInstance(instance);
-      definitions.forEach(function (propertyName) {
-        if (!propertyName) return;
-        const ref = instance as unknown as Record<string, any>;
-        vault.set(propertyName, { value: ref[propertyName] });
-        Object.defineProperty(instance, propertyName, {
-          configurable: false,
-          enumerable: true,
-          get: () => vault.get(propertyName)?.value,
-          set(value) {
-            const val = vault.get(propertyName);
-            if (!val) return;
-            const event: BNotifyEvent = {
+      definitions.forEach(({ propertyName, deep }) => {
+        const entry = vault.get(propertyName);
+        if (!deep || !entry) return;
+        // Nested values are observed when read, the vault keeps the raw value
+        const observe = createObserver(
+          (path, value, previousValue) =>
+            instance.container.notify({
               type: NotifyEventId,
               propertyName,
+              path,
               value,
+              previousValue,
               target,
-              isSimilar: val.value === value,
+              isSimilar: false,
               instance,
-            };
-            val.value = value;
+            }),
+          (fn) => instance.container.batch(fn),
+        );
+        entry.read = (value) => observe(value, propertyName);
+      });
+    },
+    onPropertyChange(
+      target: BServiceClass,
+      ref: unknown,
+      propertyName: string,
+      value: unknown,
+      previousValue: unknown,
+    ) {
+      if (!SignalRegistry.collect(target).has(propertyName)) return;
+      // Equal values are not notified at all
+      const equals = getEqualityFunction(
+        getSignalOptions(target, propertyName)?.equals,
+      );
+      if (equals(toRaw(previousValue), toRaw(value))) return;
+      const instance = ref as BServiceInstance<unknown>;
+      const event: BNotifyEvent = {
+        type: NotifyEventId,
+        propertyName,
+        value,
+        previousValue,
+        target,
+        isSimilar: false,
+        instance,
+      };
+
+      instance.container.notify(event);
+    },
+  };
+}
+
+extendPlugins(SignalPlugin);
+
+type BComputedState = {
+  value: unknown;
+  computed: boolean;
+  dependencies: Map<unknown, Set<string>>;
+  subscriptions: Map<unknown, BUnsubscribe>;
+  refresh: (instance: unknown, propertyName: string) => void;
+};
+
+// The computed properties reading each instance, refreshed when one of its plain `val` properties is assigned.
+// Plain values do not notify, and the reading instance may live in another container, hence a shared map
+const readers = new WeakMap<object, Set<BComputedState>>();
+
+function addReader(dependency: unknown, state: BComputedState) {
+  let states = readers.get(dependency as object);
+  if (!states) {
+    states = new Set();
+    readers.set(dependency as object, states);
+  }
+  states.add(state);
+}
+
+function ComputedPlugin(): BPlugin {
+  const stateMap = new Map<
+    BServiceInstance<unknown>,
+    Map<string, BComputedState>
+  >();
 
-            instance.container.dispatch(event);
-            instance.dispatch(event);
+  function release(state: BComputedState) {
+    state.subscriptions.forEach((unsubscribe, dependency) => {
+      unsubscribe();
+      readers.get(dependency as object)?.delete(state);
+    });
+    state.subscriptions.clear();
+    state.dependencies.clear();
+  }
+
+  return {
+    async onCreate(target: BServiceClass, ref: unknown) {
+      const definitions = ComputedRegistry.get(target);
+      if (!definitions) return;
+      const instance = ref as BServiceInstance<unknown>;
+      let states = stateMap.get(instance);
+      if (!states) {
+        states = new Map();
+        stateMap.set(instance, states);
+      }
+      definitions.forEach(({ propertyName, fn }) => {
+        if (states.has(propertyName)) return;
+        const state: BComputedState = {
+          value: undefined,
+          computed: false,
+          dependencies: new Map(),
+          subscriptions: new Map(),
+          refresh(dependency, dependencyName) {
+            if (state.dependencies.get(dependency)?.has(dependencyName))
+              update();
+          },
+        };
+        states.set(propertyName, state);
+
+        // Evaluate the function and follow the signals it reads
+        function evaluate() {
+          const dependencies = new Map<unknown, Set<string>>();
+          const value = track(
+            () => fn.call(instance),
+            (dependency, dependencyName) => {
+              let names = dependencies.get(dependency);
+              if (!names) {
+                names = new Set();
+                dependencies.set(dependency, names);
+              }
+              names.add(dependencyName);
+            },
+          );
+          state.subscriptions.forEach((unsubscribe, dependency) => {
+            if (dependencies.has(dependency)) return;
+            unsubscribe();
+            state.subscriptions.delete(dependency);
+            readers.get(dependency as object)?.delete(state);
+          });
+          dependencies.forEach((_, dependency) => {
+            if (state.subscriptions.has(dependency)) return;
+            const service = dependency as BServiceInstance<unknown>;
+            state.subscriptions.set(dependency, service.subscribe(onMessage));
+            addReader(dependency, state);
+          });
+          state.dependencies = dependencies;
+          state.value = value;
+          state.computed = true;
+        }
+
+        function onMessage(message: unknown) {
+          const changed = getNotifyEvents(message).some(
+            (event) =>
+              !event.isSimilar &&
+              state.dependencies.get(event.instance)?.has(event.propertyName),
+          );
+          if (changed) update();
+        }
+
+        // Evaluate the function again and notify the change of its value
+        function update() {
+          const previousValue = state.value;
+          evaluate();
+          if (previousValue === state.value) return;
+          const notification: BNotifyEvent = {
+            type: NotifyEventId,
+            propertyName,
+            value: state.value,
+            previousValue,
+            target,
+            isSimilar: false,
+            instance,
+          };
+          instance.container.notify(notification);
+        }
+
+        Object.defineProperty(instance, propertyName, {
+          configurable: true,
+          enumerable: false,
+          get() {
+            trackRead(instance, propertyName);
+            if (!state.computed) evaluate();
+            return state.value;
           },
         });
       });
     },
+    onPropertyChange(
+      target: BServiceClass,
+      ref: unknown,
+      propertyName: string,
+      value: unknown,
+      previousValue: unknown,
+    ) {
+      // Signals are followed through their notifications
+      if (SignalRegistry.collect(target).has(propertyName)) return;
+      if (Object.is(value, previousValue)) return;
+      // Refreshing a computed property may change the readers of the instance
+      Array.from(readers.get(ref as object) ?? []).forEach((state) =>
+        state.refresh(ref, propertyName),
+      );
+    },
+    async onDestroy(_: BServiceClass, ref: unknown) {
+      const instance = ref as BServiceInstance<unknown>;
+      stateMap.get(instance)?.forEach(release);
+      stateMap.delete(instance);
+    },
+    async onContainerDispose() {
+      stateMap.forEach((states) => states.forEach(release));
+      stateMap.clear();
+    },
   };
 }
 
-extendPlugins(SignalPlugin);
+extendPlugins(ComputedPlugin);
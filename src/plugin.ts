@@ -1,5 +1,6 @@
 import type { BContainer } from './container';
 import type { BServiceClass } from './service';
+import type { BWrappedFunction } from './wrappers';
 
 /**
  * Defines the structure of a plugin class for Beatle.
@@ -45,15 +46,17 @@ export type BPluginClass = { (container?: BContainer): BPlugin };
  * Plugins allow you to extend Beatle's functionality by hooking into service lifecycle events.
  *
  * @description
- * The `BPlugin` interface provides two optional methods, `onCreate` and `onDestroy`,
+ * The `BPlugin` interface provides optional methods, such as `onCreate` and `onDestroy`,
  * which are triggered during the creation and destruction of services within the container.
  * These methods allow you to run custom logic when services are loaded into memory or removed.
+ * Other hooks intercept the invocations of `func` members and the assignments of `val` properties,
+ * so plugins can observe services without replacing their properties.
  * Plugins can be used to perform actions such as logging, managing side effects, or modifying services
  * when they are created or destroyed.
  *
  * @example
  * ```tsx
- * import { BServiceClass, BServiceInstance, BPlugin } from "beatlejs";
+ * import { BServiceClass, BServiceInstance, BPlugin, BInvocation } from "beatlejs";
  *
  * export function ExamplePlugin(): BPlugin {
  *   return {
@@ -63,6 +66,9 @@ export type BPluginClass = { (container?: BContainer): BPlugin };
  *     async onDestroy(target: BServiceClass, instance: BServiceInstance<unknown>) {
  *       console.log(`${target.identifier} is being destroyed`);
  *     },
+ *     onAfterInvoke({ target, propertyName }: BInvocation) {
+ *       console.log(`${target.identifier}.${propertyName} has been called`);
+ *     },
  *   };
  * }
  * ```
@@ -87,4 +93,108 @@ export interface BPlugin {
    * @returns A promise that resolves once the onDestroy logic is complete.
    */
   onDestroy?(target: BServiceClass, instance: unknown): Promise<void>;
+
+  /**
+   * Called right before a `func` member of a service is invoked.
+   *
+   * @param invocation - The service, property name and arguments of the call.
+   */
+  onBeforeInvoke?(invocation: BInvocation): void;
+
+  /**
+   * Called once a `func` member of a service has returned (or its promise has resolved).
+   *
+   * @param invocation - The service, property name and arguments of the call.
+   * @param result - The value returned by the function.
+   */
+  onAfterInvoke?(invocation: BInvocation, result: unknown): void;
+
+  /**
+   * Called when a `func` member of a service throws (or its promise rejects).
+   * The error is rethrown to the caller afterwards.
+   *
+   * @param invocation - The service, property name and arguments of the call.
+   * @param error - The thrown error.
+   */
+  onInvokeError?(invocation: BInvocation, error: unknown): void;
+
+  /**
+   * Called when the container composes the wrappers of a `func` member, once per wrapper kind.
+   * Wrappers are applied from the innermost to the outermost one, following the nesting of the descriptors,
+   * so `cache(retry(func(fn)))` retries within the cache miss path.
+   *
+   * @param target - The class definition of the service declaring the wrapper.
+   * @param instance - The service instance.
+   * @param propertyName - The name of the wrapped property.
+   * @param kind - The kind of the wrapper (e.g. `retry`).
+   * @param next - The function to wrap, already wrapped by the inner wrappers.
+   * @returns The wrapping function, or undefined when the plugin does not handle the kind.
+   */
+  onWrap?(
+    target: BServiceClass,
+    instance: unknown,
+    propertyName: string,
+    kind: string,
+    next: BWrappedFunction,
+  ): BWrappedFunction | undefined;
+
+  /**
+   * Called whenever a `val` property of a service is assigned.
+   *
+   * @param target - The class definition of the service.
+   * @param instance - The service instance.
+   * @param propertyName - The name of the assigned property.
+   * @param value - The new value.
+   * @param previousValue - The value before the assignment.
+   */
+  onPropertyChange?(
+    target: BServiceClass,
+    instance: unknown,
+    propertyName: string,
+    value: unknown,
+    previousValue: unknown,
+  ): void;
+
+  /**
+   * Called after a service has been reset to its blueprint values.
+   *
+   * @param target - The class definition of the service.
+   * @param instance - The service instance.
+   */
+  onReset?(target: BServiceClass, instance: unknown): void;
+
+  /**
+   * Called when the container is disposed, once every service of the container has been destroyed,
+   * allowing the plugin to release the state it keeps for the container (timers, listeners, maps).
+   *
+   * @returns A promise that resolves once the plugin is torn down.
+   */
+  onContainerDispose?(): Promise<void>;
 }
+
+/**
+ * Describes a single call of a `func` member, shared by the invocation hooks of a plugin.
+ */
+export type BInvocation = {
+  /**
+   * The class definition of the service.
+   */
+  target: BServiceClass;
+  /**
+   * The service instance the function is invoked on.
+   */
+  instance: unknown;
+  /**
+   * The name of the invoked property.
+   */
+  propertyName: string;
+  /**
+   * The arguments of the call.
+   */
+  args: unknown[];
+  /**
+   * The call running when this one started, if any.
+   * It is carried through `await` where `AsyncLocalStorage` is available.
+   */
+  parent?: BInvocation;
+};
@@ -1,6 +1,6 @@
 import type { BContainer } from '../../container';
 import type { BPlugin } from '../../plugin';
-import { extendPlugins, ServiceRegistry } from '../../registries';
+import { extendPlugins, GlobalRegistry } from '../../registries';
 import type { BServiceClass, BServiceInstance } from '../../service';
 
 /**
@@ -10,9 +10,10 @@ export function bootstrap(container: BContainer) {
   return container.invokeLinear('bootstrap');
 }
 
-function BootstrapPlugin(): BPlugin {
+function BootstrapPlugin(container?: BContainer): BPlugin {
   const clone = new Map<BServiceClass, VoidFunction | undefined | null>();
-  ServiceRegistry.forEach((key) => clone.set(key, null));
+  const registry = container?.getRegistry() ?? GlobalRegistry;
+  registry.services.forEach((key) => clone.set(key, null));
   return {
     async onCreate(
       service: BServiceClass,
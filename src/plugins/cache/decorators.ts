@@ -1,6 +1,7 @@
 import { MakeArrayRegistry } from '../../registries';
 import type { BDescriptor } from '../../service';
 import { DePromise } from '../../types';
+import { WrapperRegistry } from '../../wrappers';
 
 export type BCacheOptions = {
   lifespan: number;
@@ -31,6 +32,7 @@ export function cache<T extends (...args: any[]) => any>(
       lifespan: options?.lifespan ?? 3_600_000,
       cacheKey: options?.cacheKey
     });
+    WrapperRegistry.register(target, { propertyName: key, kind: 'cache' });
     return next(target, key) as unknown as T;
   };
 }
@@ -1,4 +1,14 @@
 import './private/plugins';
 export type { BCacheOptions } from './decorators';
 export { cache } from './decorators';
-export {cacheManager} from './cacheManager'
\ No newline at end of file
+export {cacheManager} from './cacheManager'
+export {
+  getCacheStorage,
+  MemoryCacheStorage,
+  setCacheStorage,
+} from './storage';
+export type {
+  BCacheBox,
+  BCacheStorage,
+  BMemoryCacheStorageOptions,
+} from './storage';
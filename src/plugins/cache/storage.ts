@@ -0,0 +1,159 @@
+import type { BContainer } from '../../container';
+
+/**
+ * The subset of the Cache API used by the cache plugin.
+ */
+export type BCacheBox = {
+  match(
+    request: RequestInfo,
+    options?: CacheQueryOptions,
+  ): Promise<Response | undefined>;
+  put(request: string, response: Response): Promise<void>;
+  delete(request: RequestInfo, options?: CacheQueryOptions): Promise<boolean>;
+  keys(): Promise<readonly Request[]>;
+};
+
+/**
+ * The subset of the `CacheStorage` API used by the cache plugin, opening a cache box per service.
+ */
+export type BCacheStorage = {
+  open(name: string): Promise<BCacheBox>;
+};
+
+// Keys are resolved the way the Cache API resolves relative requests
+const MemoryOrigin = 'http://localhost/';
+
+function toUrl(request: RequestInfo, ignoreSearch?: boolean) {
+  const url = new URL(
+    typeof request === 'string' ? request : request.url,
+    MemoryOrigin,
+  );
+  if (ignoreSearch) url.search = '';
+  return url.href;
+}
+
+/**
+ * Options of `MemoryCacheStorage`.
+ */
+export type BMemoryCacheStorageOptions = {
+  /** Maximum number of responses kept per cache box, the least recently used ones are dropped first (default is 1000) */
+  maxEntries?: number;
+};
+
+// Helper function to tell whether a response saved by the cache plugin has expired
+function isExpired(response: Response) {
+  const expiresAt = Number(response.headers.get('expiresat'));
+  return !isNaN(expiresAt) && expiresAt > 0 && expiresAt <= Date.now();
+}
+
+/**
+ * A cache storage keeping the responses in memory, used where the Cache API is not available (Node, server rendering).
+ * Expired responses are dropped when new ones are saved, and each cache box keeps at most `maxEntries` responses.
+ *
+ * @param options Optional options, see `BMemoryCacheStorageOptions`.
+ */
+export function MemoryCacheStorage({
+  maxEntries = 1000,
+}: BMemoryCacheStorageOptions = {}): BCacheStorage {
+  const boxes = new Map<string, Map<string, Response>>();
+
+  function findKeys(
+    entries: Map<string, Response>,
+    request: RequestInfo,
+    options?: CacheQueryOptions,
+  ) {
+    const url = toUrl(request, options?.ignoreSearch);
+    return Array.from(entries.keys()).filter(
+      (key) => toUrl(key, options?.ignoreSearch) === url,
+    );
+  }
+
+  return {
+    async open(name) {
+      let entries = boxes.get(name);
+      if (!entries) {
+        entries = new Map();
+        boxes.set(name, entries);
+      }
+      const box = entries;
+      return {
+        async match(request, options) {
+          const [key] = findKeys(box, request, options);
+          if (key === undefined) return undefined;
+          const response = box.get(key) as Response;
+          // Keep the entries ordered from the least to the most recently used
+          box.delete(key);
+          box.set(key, response);
+          return response.clone();
+        },
+        async put(request, response) {
+          const key = toUrl(request);
+          box.delete(key);
+          box.set(key, response.clone());
+          box.forEach((value, entry) => {
+            if (isExpired(value)) box.delete(entry);
+          });
+          for (const entry of box.keys()) {
+            if (box.size <= maxEntries) break;
+            box.delete(entry);
+          }
+        },
+        async delete(request, options) {
+          const keys = findKeys(box, request, options);
+          keys.forEach((key) => box.delete(key));
+          return keys.length > 0;
+        },
+        async keys() {
+          return Array.from(box.keys()).map((url) => new Request(url));
+        },
+      };
+    },
+  };
+}
+
+let currentStorage: BCacheStorage | undefined;
+
+const Symbol_cacheStorage = Symbol('cacheStorage');
+
+/**
+ * Replaces the storage of the cache plugin, e.g. with a shared store on the server.
+ * Cache boxes are opened on first use, so the storage should be set before the cached functions are called.
+ *
+ * @description
+ * Without a container, the storage is used by every container of the process. On the server, the default
+ * memory storage is shared by all the requests, so cached responses of one user can be served to another:
+ * give the container of each request its own storage instead.
+ *
+ * @example
+ * ```tsx
+ * import { MemoryCacheStorage, setCacheStorage } from "beatlejs/plugins/cache";
+ *
+ * const container = Container();
+ * setCacheStorage(MemoryCacheStorage({ maxEntries: 100 }), container);
+ * ```
+ *
+ * @param storage The cache storage.
+ * @param container Optional container using the storage, instead of every container.
+ */
+export function setCacheStorage(
+  storage: BCacheStorage,
+  container?: BContainer,
+) {
+  if (container) container.setProperty(Symbol_cacheStorage, storage);
+  else currentStorage = storage;
+}
+
+/**
+ * Returns the storage of the cache plugin: the storage of the container when it has one,
+ * the Cache API when available, or a memory storage otherwise.
+ *
+ * @param container Optional container whose storage is looked up first.
+ */
+export function getCacheStorage(container?: BContainer): BCacheStorage {
+  const storage = container?.getProperty<BCacheStorage>(Symbol_cacheStorage);
+  if (storage) return storage;
+  if (!currentStorage)
+    currentStorage =
+      typeof caches !== 'undefined' ? caches : MemoryCacheStorage();
+  return currentStorage;
+}
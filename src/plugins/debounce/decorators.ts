@@ -1,5 +1,6 @@
 import { MakeArrayRegistry } from '../../registries';
 import { BDescriptor } from '../../service';
+import { WrapperRegistry } from '../../wrappers';
 
 /**
  * Options for configuring debouncing, including the delay in milliseconds.
@@ -31,6 +32,7 @@ export function debounce<T extends (...args: any[]) => any>(next: BDescriptor<T>
       propertyName: key,
       ms: ms ?? 250,
     });
+    WrapperRegistry.register(target, { propertyName: key, kind: 'debounce' });
     return next(target, key);
   };
 }
@@ -1,12 +1,9 @@
-import { IdentifierSymbol } from '../../../container';
-import { TypeError } from '../../../errors/TypeError';
 import type { BPlugin } from '../../../plugin';
 import { extendPlugins } from '../../../registries';
 import type { BServiceClass, BServiceInstance } from '../../../service';
+import type { BWrappedFunction } from '../../../wrappers';
 import { DebounceRegistry } from '../decorators';
 
-type BDebounceFunction = (...args: unknown[]) => Promise<void> | void;
-
 function DebouncePlugin(): BPlugin {
   const timerMap = new Map<
     BServiceInstance<never>,
@@ -14,35 +11,35 @@ function DebouncePlugin(): BPlugin {
   >();
 
   return {
-    async onCreate(target: BServiceClass, instance: BServiceInstance<never>) {
-      const definitions = DebounceRegistry.get(target);
-      if (!definitions) return;
-      let timers = timerMap.get(instance);
+    onWrap(
+      target: BServiceClass,
+      instance: unknown,
+      propertyName: string,
+      kind: string,
+      next: BWrappedFunction,
+    ) {
+      if (kind !== 'debounce') return;
+      const definition = DebounceRegistry.get(target)?.find(
+        (item) => item.propertyName === propertyName,
+      );
+      if (!definition) return;
+      const { ms } = definition;
+      const key = instance as BServiceInstance<never>;
+      let timers = timerMap.get(key);
       if (!timers) {
         timers = [];
-        timerMap.set(instance, timers);
+        timerMap.set(key, timers);
+      }
+      const index = timers.length;
+      function replacementFunction(...args: unknown[]) {
+        if (!timers) return;
+        clearTimeout(timers[index]);
+        timers[index] = setTimeout(() => {
+          next.apply(instance, args);
+          timers[index] = undefined;
+        }, ms);
       }
-      definitions.forEach(({ propertyName, ms }) => {
-        const proxyFunction: BDebounceFunction = instance[propertyName];
-        if (typeof proxyFunction !== 'function') {
-          throw new TypeError(instance[IdentifierSymbol], propertyName, 'debounce plugin only works on functions');
-        }
-        const index = timers.length;
-        function replacementFunction(...args: unknown[]) {
-          if (!timers) return;
-          clearTimeout(timers[index]);
-          timers[index] = setTimeout(() => {
-            proxyFunction.apply(instance, args);
-            timers[index] = undefined;
-          }, ms);
-        }
-        Object.defineProperty(instance, propertyName, {
-          configurable: true,
-          enumerable: false,
-          writable: false,
-          value: replacementFunction,
-        });
-      });
+      return replacementFunction;
     },
     async onDestroy(_: BServiceClass, instance: BServiceInstance<never>) {
       const timers = timerMap.get(instance);
@@ -50,6 +47,11 @@ function DebouncePlugin(): BPlugin {
         timers.forEach(clearTimeout);
         timers.splice(0, timers.length);
       }
+      timerMap.delete(instance);
+    },
+    async onContainerDispose() {
+      timerMap.forEach((timers) => timers.forEach(clearTimeout));
+      timerMap.clear();
     },
   };
 }
@@ -3,11 +3,15 @@ import type { BPlugin } from '../../plugin';
 import { extendPlugins } from '../../registries';
 import type { BServiceClass, BServiceInstance } from '../../service';
 
+/**
+ * Exposes every service instance globally as `$Identifier` (e.g. `window.$Counter` in a browser),
+ * so services can be inspected from a console.
+ */
 export function DebugPlugin(): BPlugin {
   return {
     async onCreate(_: BServiceClass, instance: BServiceInstance<unknown>) {
       const key = `$${instance[IdentifierSymbol]}`;
-      Object.defineProperty(window, key, {
+      Object.defineProperty(globalThis, key, {
         configurable: true,
         enumerable: false,
         writable: false,
@@ -18,7 +22,7 @@ export function DebugPlugin(): BPlugin {
     async onDestroy(_: BServiceClass, instance: BServiceInstance<unknown>) {
       const key = `$${instance[IdentifierSymbol]}`;
 
-      Object.defineProperty(window, key, {
+      Object.defineProperty(globalThis, key, {
         configurable: true,
         enumerable: false,
         writable: false,
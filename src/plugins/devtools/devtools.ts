@@ -0,0 +1,361 @@
+import { BContainer, IdentifierSymbol } from '../../container';
+import { ValRegistry } from '../../decorators/val';
+import { getNotifyEvents } from '../../events';
+import type { BInvocation, BPlugin } from '../../plugin';
+import type { BServiceInstance } from '../../service';
+import { getVaultFromInstance } from '../../vault';
+import type { BDevtoolsTransport } from './transports';
+
+/**
+ * The values of every service of a container, keyed by the service identifier.
+ */
+export type BDevtoolsState = Record<string, Record<string, unknown>>;
+
+type BDevtoolsRecord = {
+  service: string;
+  propertyName: string;
+} & (
+  | {
+      kind: 'notify';
+      value: unknown;
+      previousValue?: unknown;
+      path?: string;
+    }
+  | {
+      kind: 'invoke';
+      args: unknown[];
+      duration: number;
+      result?: unknown;
+      error?: unknown;
+    }
+);
+
+/**
+ * A value assigned to a property of a service.
+ */
+export type BDevtoolsChange = {
+  service: string;
+  propertyName: string;
+  value: unknown;
+};
+
+/**
+ * A point recorded by the devtools bridge, along with the values assigned since the previous point.
+ * The state of the container at that point is rebuilt from them by `getState`.
+ */
+export type BDevtoolsEntry = BDevtoolsRecord & {
+  index: number;
+  time: number;
+  changes: BDevtoolsChange[];
+};
+
+/**
+ * Messages sent by the bridge through its transport.
+ * The state is only sent once, frontends keep it up to date with the changes of the entries.
+ */
+export type BDevtoolsMessage =
+  | { type: 'init'; state: BDevtoolsState }
+  | { type: 'entry'; entry: BDevtoolsEntry };
+
+/**
+ * Commands received by the bridge from its transport.
+ */
+export type BDevtoolsCommand =
+  | { type: 'jumpTo'; index: number }
+  | { type: 'restore'; state: BDevtoolsState };
+
+/**
+ * Options of the devtools bridge.
+ */
+export type BDevtoolsOptions = {
+  container: BContainer;
+  transport?: BDevtoolsTransport;
+  /** Maximum number of recorded entries, the oldest ones are dropped first (default is 1000) */
+  maxEntries?: number;
+};
+
+// Values are copied, so later mutations do not alter the recorded states
+function clone<T>(value: T): T {
+  try {
+    return structuredClone(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Returns a state with the changes of an entry applied, the given state is left untouched.
+ *
+ * @param state The state preceding the entry.
+ * @param changes The changes of the entry.
+ */
+export function applyDevtoolsChanges(
+  state: BDevtoolsState,
+  changes: BDevtoolsChange[],
+): BDevtoolsState {
+  if (!changes.length) return state;
+  const output = { ...state };
+  changes.forEach(({ service, propertyName, value }) => {
+    output[service] = { ...output[service], [propertyName]: value };
+  });
+  return output;
+}
+
+/**
+ * Connects a container to a devtools frontend.
+ *
+ * @description
+ * Every notification and every `func` invocation of the container is recorded,
+ * along with the `val` properties assigned since the previous entry, and streamed over the transport.
+ * Only the assigned properties are copied, the state of an entry is rebuilt when it is requested.
+ * The container can be moved back to any recorded point with `jumpTo`,
+ * or by the frontend (e.g. the Redux DevTools extension through `reduxDevtoolsTransport`).
+ *
+ * @example
+ * ```tsx
+ * import { connectDevtools, postMessageTransport } from "beatlejs/plugins/devtools";
+ *
+ * const devtools = connectDevtools({ container, transport: postMessageTransport() });
+ * devtools.jumpTo(3);
+ * ```
+ *
+ * @param container - The DI container to record.
+ * @param transport - Optional transport streaming the entries to a frontend.
+ * @param maxEntries - Optional maximum number of recorded entries (default is 1000).
+ */
+export function connectDevtools({
+  container,
+  transport,
+  maxEntries = 1000,
+}: BDevtoolsOptions) {
+  const entries: BDevtoolsEntry[] = [];
+  const startTimes = new Map<BInvocation, number>();
+  // Properties assigned since the last entry, copied once the next entry is recorded,
+  // flagged when their value changed in place (e.g. nested changes of deep signals)
+  const assigned = new Map<BServiceInstance<unknown>, Map<string, boolean>>();
+  // Values copied last, so a property is not copied again until it is assigned another value
+  const captured = new WeakMap<object, Map<string, unknown>>();
+  // State preceding the oldest entry
+  let base: BDevtoolsState = {};
+  let counter = 0;
+  let connected = true;
+  let replaying = false;
+
+  function getState() {
+    const state: BDevtoolsState = {};
+    for (const item of container.getServices()) {
+      const values: Record<string, unknown> = {};
+      const vault = getVaultFromInstance(item.instance);
+      ValRegistry.collect(item.class).forEach((propertyName) => {
+        values[propertyName] = clone(vault.get(propertyName)?.value);
+      });
+      state[item.instance[IdentifierSymbol]] = values;
+    }
+    return state;
+  }
+
+  function restore(state: BDevtoolsState) {
+    replaying = true;
+    try {
+      container.batch(() => {
+        for (const item of container.getServices()) {
+          const values = state[item.instance[IdentifierSymbol]];
+          if (!values) continue;
+          const instance = item.instance as Record<string, unknown>;
+          ValRegistry.collect(item.class).forEach((propertyName) => {
+            if (!(propertyName in values)) return;
+            instance[propertyName] = clone(values[propertyName]);
+          });
+        }
+      });
+    } finally {
+      replaying = false;
+    }
+  }
+
+  function markAssigned(
+    instance: unknown,
+    propertyName: string,
+    inPlace: boolean,
+  ) {
+    const key = instance as BServiceInstance<unknown>;
+    let properties = assigned.get(key);
+    if (!properties) {
+      properties = new Map();
+      assigned.set(key, properties);
+    }
+    properties.set(propertyName, inPlace || !!properties.get(propertyName));
+  }
+
+  function takeChanges() {
+    const changes: BDevtoolsChange[] = [];
+    assigned.forEach((properties, instance) => {
+      const vault = getVaultFromInstance(instance);
+      let values = captured.get(instance);
+      if (!values) {
+        values = new Map();
+        captured.set(instance, values);
+      }
+      properties.forEach((inPlace, propertyName) => {
+        const value = vault.get(propertyName)?.value;
+        if (
+          !inPlace &&
+          values.has(propertyName) &&
+          Object.is(values.get(propertyName), value)
+        )
+          return;
+        values.set(propertyName, value);
+        changes.push({
+          service: instance[IdentifierSymbol],
+          propertyName,
+          value: clone(value),
+        });
+      });
+    });
+    assigned.clear();
+    return changes;
+  }
+
+  function record(entry: BDevtoolsRecord) {
+    if (!connected || replaying) return;
+    const recorded: BDevtoolsEntry = {
+      ...entry,
+      index: counter++,
+      time: Date.now(),
+      changes: takeChanges(),
+    };
+    entries.push(recorded);
+    if (entries.length > maxEntries) {
+      const dropped = entries.shift() as BDevtoolsEntry;
+      base = applyDevtoolsChanges(base, dropped.changes);
+    }
+    transport?.send({ type: 'entry', entry: recorded });
+  }
+
+  function getName(instance: unknown) {
+    return (instance as BServiceInstance<unknown>)[IdentifierSymbol];
+  }
+
+  function onSettled(
+    invocation: BInvocation,
+    outcome: { result?: unknown; error?: unknown },
+  ) {
+    const start = startTimes.get(invocation);
+    startTimes.delete(invocation);
+    if (start === undefined) return;
+    record({
+      kind: 'invoke',
+      service: getName(invocation.instance),
+      propertyName: invocation.propertyName,
+      args: invocation.args,
+      duration: performance.now() - start,
+      ...outcome,
+    });
+  }
+
+  const unsubscribe = container.subscribe((message: unknown) => {
+    getNotifyEvents(message).forEach((event) => {
+      // Notifications may precede onPropertyChange, and nested changes of deep signals skip it
+      markAssigned(event.instance, event.propertyName, !!event.path);
+      record({
+        kind: 'notify',
+        service: getName(event.instance),
+        propertyName: event.propertyName,
+        value: clone(event.value),
+        previousValue: clone(event.previousValue),
+        path: event.path,
+      });
+    });
+  });
+
+  const unsubscribeTransport = transport?.subscribe?.((command) => {
+    if (command.type === 'jumpTo') jumpTo(command.index);
+    else if (command.type === 'restore') restore(command.state);
+  });
+
+  // Record the invocations of the container, and release the bridge along with it
+  container.registerPlugin(function DevtoolsPlugin(): BPlugin {
+    return {
+      onBeforeInvoke(invocation) {
+        if (!connected || replaying) return;
+        startTimes.set(invocation, performance.now());
+      },
+      onAfterInvoke(invocation, result) {
+        onSettled(invocation, { result });
+      },
+      onInvokeError(invocation, error) {
+        onSettled(invocation, { error });
+      },
+      async onCreate(target, instance) {
+        ValRegistry.collect(target).forEach((propertyName) =>
+          markAssigned(instance, propertyName, true),
+        );
+      },
+      onPropertyChange(_, instance, propertyName) {
+        if (connected) markAssigned(instance, propertyName, false);
+      },
+      async onContainerDispose() {
+        disconnect();
+      },
+    };
+  });
+
+  // The services created so far are part of the initial state
+  assigned.clear();
+  base = getState();
+  transport?.send({ type: 'init', state: base });
+
+  /**
+   * Returns the state of the container at a recorded entry, or undefined when the entry is not recorded anymore.
+   *
+   * @param index The index of the entry.
+   */
+  function getStateAt(index: number) {
+    const position = entries.findIndex((item) => item.index === index);
+    if (position === -1) return undefined;
+    let state = base;
+    for (let i = 0; i <= position; i++)
+      state = applyDevtoolsChanges(state, entries[i].changes);
+    return clone(state);
+  }
+
+  /**
+   * Restores the container to the state of a recorded entry.
+   *
+   * @param index The index of the entry.
+   */
+  function jumpTo(index: number) {
+    const state = getStateAt(index);
+    if (!state) return false;
+    restore(state);
+    return true;
+  }
+
+  /**
+   * Stops recording and releases the transport.
+   */
+  function disconnect() {
+    if (!connected) return;
+    connected = false;
+    unsubscribe();
+    unsubscribeTransport?.();
+    transport?.close?.();
+    startTimes.clear();
+    assigned.clear();
+  }
+
+  return {
+    /**
+     * Returns the recorded entries, from the oldest to the latest one.
+     */
+    getHistory: () => entries.slice(),
+    getState: getStateAt,
+    jumpTo,
+    disconnect,
+  };
+}
+
+/**
+ * The devtools bridge returned by `connectDevtools`.
+ */
+export type BDevtools = ReturnType<typeof connectDevtools>;
@@ -0,0 +1,18 @@
+export { applyDevtoolsChanges, connectDevtools } from './devtools';
+export type {
+  BDevtools,
+  BDevtoolsChange,
+  BDevtoolsCommand,
+  BDevtoolsEntry,
+  BDevtoolsMessage,
+  BDevtoolsOptions,
+  BDevtoolsState,
+} from './devtools';
+export {
+  DevtoolsCommandSource,
+  DevtoolsMessageSource,
+  memoryTransport,
+  postMessageTransport,
+  reduxDevtoolsTransport,
+} from './transports';
+export type { BDevtoolsTransport } from './transports';
@@ -0,0 +1,202 @@
+import { getWindow } from '../../environment';
+import type { BUnsubscribe } from '../../eventBus';
+import {
+  applyDevtoolsChanges,
+  type BDevtoolsCommand,
+  type BDevtoolsMessage,
+  type BDevtoolsState,
+} from './devtools';
+
+/**
+ * Carries the messages of the devtools bridge to a devtools frontend, and its commands back.
+ */
+export type BDevtoolsTransport = {
+  /**
+   * Sends a message to the frontend.
+   *
+   * @param message message to send
+   */
+  send(message: BDevtoolsMessage): void;
+  /**
+   * Listens to the commands of the frontend (e.g. jumping to a recorded point).
+   *
+   * @param listener listener function
+   */
+  subscribe?(listener: (command: BDevtoolsCommand) => void): BUnsubscribe;
+  /**
+   * Releases the transport once the bridge is disconnected.
+   */
+  close?(): void;
+};
+
+/**
+ * Source of the messages posted by the `postMessage` transport.
+ */
+export const DevtoolsMessageSource = 'beatlejs-devtools';
+
+/**
+ * Source of the commands expected by the `postMessage` transport.
+ */
+export const DevtoolsCommandSource = 'beatlejs-devtools-command';
+
+// Values that can not be cloned (e.g. functions) are sent by their description
+function toTransferable(message: BDevtoolsMessage) {
+  return JSON.parse(
+    JSON.stringify(message, (_, value) => {
+      if (typeof value === 'function') return `[Function ${value.name}]`;
+      if (typeof value === 'bigint') return value.toString();
+      if (value instanceof Map) return Object.fromEntries(value);
+      if (value instanceof Set) return Array.from(value);
+      return value;
+    }),
+  );
+}
+
+/**
+ * A transport posting the messages to a window (e.g. read by a browser extension content script).
+ *
+ * @param target The window to post the messages to, the current window by default.
+ * Outside of a browser, the messages are dropped unless a target is given.
+ */
+export function postMessageTransport(
+  target: Window | undefined = getWindow(),
+): BDevtoolsTransport {
+  return {
+    send(message) {
+      target?.postMessage(
+        { source: DevtoolsMessageSource, ...toTransferable(message) },
+        '*',
+      );
+    },
+    subscribe(listener) {
+      function onMessage(event: MessageEvent) {
+        const data = event.data;
+        if (!data || data.source !== DevtoolsCommandSource) return;
+        listener(data as BDevtoolsCommand);
+      }
+      target?.addEventListener('message', onMessage);
+      return () => target?.removeEventListener('message', onMessage);
+    },
+  };
+}
+
+/**
+ * A transport keeping the messages in memory, a stand-in for a socket in tests.
+ * Commands are sent to the bridge through `command`.
+ */
+export function memoryTransport() {
+  const listeners = new Set<(command: BDevtoolsCommand) => void>();
+  const messages: BDevtoolsMessage[] = [];
+  return {
+    messages,
+    closed: false,
+    send(message: BDevtoolsMessage) {
+      messages.push(message);
+    },
+    subscribe(listener: (command: BDevtoolsCommand) => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    close() {
+      this.closed = true;
+      listeners.clear();
+    },
+    /**
+     * Sends a command to the bridge, as a devtools frontend would.
+     *
+     * @param command command to send
+     */
+    command(command: BDevtoolsCommand) {
+      listeners.forEach((listener) => listener(command));
+    },
+  } satisfies BDevtoolsTransport & Record<string, unknown>;
+}
+
+type BReduxDevtoolsConnection = {
+  init(state: unknown): void;
+  send(action: unknown, state: unknown): void;
+  subscribe(listener: (message: unknown) => void): (() => void) | void;
+  unsubscribe?(): void;
+};
+
+type BReduxDevtoolsDispatch = {
+  type: 'DISPATCH';
+  state?: string;
+  payload?: { type?: string; actionId?: number };
+};
+
+// Helper function to tell the messages of the extension dispatched by the user
+function isDispatch(message: unknown): message is BReduxDevtoolsDispatch {
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    (message as { type?: unknown }).type === 'DISPATCH'
+  );
+}
+
+type BReduxDevtoolsExtension = {
+  connect(options: { name?: string }): BReduxDevtoolsConnection;
+};
+
+/**
+ * A transport talking the protocol of the Redux DevTools extension.
+ * Each recorded entry shows up as an action, jumping to an action or a state restores it.
+ *
+ * @param name The name of the instance within the extension.
+ * @returns The transport, or undefined when the extension is not installed.
+ */
+export function reduxDevtoolsTransport(
+  name = 'beatlejs',
+): BDevtoolsTransport | undefined {
+  const extension = (
+    globalThis as { __REDUX_DEVTOOLS_EXTENSION__?: BReduxDevtoolsExtension }
+  ).__REDUX_DEVTOOLS_EXTENSION__;
+  if (!extension) return undefined;
+  const connection = extension.connect({ name });
+  const actionIndexes = new Map<number, number>();
+  let actionId = 0;
+  // The extension expects the state along with each action
+  let state: BDevtoolsState = {};
+  return {
+    send(message) {
+      if (message.type === 'init') {
+        state = message.state;
+        connection.init(state);
+        return;
+      }
+      const { entry } = message;
+      state = applyDevtoolsChanges(state, entry.changes);
+      actionIndexes.set(++actionId, entry.index);
+      connection.send(
+        { ...entry, type: `${entry.service}.${entry.propertyName}` },
+        state,
+      );
+    },
+    subscribe(listener) {
+      const unsubscribe = connection.subscribe((message) => {
+        if (!isDispatch(message)) return;
+        const payload = message.payload;
+        if (payload?.type === 'JUMP_TO_ACTION') {
+          if (typeof payload.actionId !== 'number') return;
+          const index = actionIndexes.get(payload.actionId);
+          if (index !== undefined) listener({ type: 'jumpTo', index });
+          return;
+        }
+        if (
+          payload?.type === 'JUMP_TO_STATE' &&
+          typeof message.state === 'string'
+        ) {
+          listener({ type: 'restore', state: JSON.parse(message.state) });
+        }
+      });
+      return () => {
+        if (typeof unsubscribe === 'function') unsubscribe();
+      };
+    },
+    close() {
+      connection.unsubscribe?.();
+    },
+  };
+}
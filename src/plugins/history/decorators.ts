@@ -0,0 +1,84 @@
+import { MakeArrayRegistry } from '../../registries';
+import type { BDescriptor } from '../../service';
+
+/**
+ * Options for configuring the history of a service.
+ * - `limit`: The maximum number of undo steps kept.
+ */
+export type BHistoryOptions = {
+  /** Maximum number of undo steps */
+  limit: number;
+};
+
+/**
+ * The controller of the history of a service.
+ */
+export type BHistory = {
+  /** Restores the values preceding the last step. */
+  undo(): void;
+  /** Applies the last undone step again. */
+  redo(): void;
+  /** Forgets every recorded step. */
+  clearHistory(): void;
+  /** Whether there is a step to undo. */
+  readonly canUndo: boolean;
+  /** Whether there is a step to redo. */
+  readonly canRedo: boolean;
+};
+
+/**
+ * A custom registry for history configurations.
+ * Stores the properties whose changes are recorded for each service.
+ */
+export const HistoryRegistry = MakeArrayRegistry<
+  BHistoryOptions & {
+    propertyName: string;
+    properties: string[];
+  }
+>();
+
+/**
+ * Decorator function to record the changes of signals, so they can be undone.
+ * The changes notified within one `func` call (or one batch) are grouped into a single undo step.
+ * Changes made elsewhere while an asynchronous call is pending make steps of their own,
+ * and the call only groups its changes past an `await` where `AsyncLocalStorage` is available.
+ * The property holds the controller of the history.
+ *
+ * @example
+ * ```tsx
+ * import { Service, func, val } from "beatlejs";
+ * import { signal } from "beatlejs/react";
+ * import { history } from "beatlejs/plugins/history";
+ *
+ * const $Editor = Service({ identifier: 'Editor' }, {
+ *   text: signal(val('')),
+ *   title: signal(val('')),
+ *   history: history(['text', 'title'], { limit: 50 }),
+ *   rename: func(rename),
+ * });
+ *
+ * function rename(this: typeof $Editor, title: string) {
+ *   this.title = title;
+ *   this.text = `# ${title}`;
+ * }
+ *
+ * // Reverts both the title and the text
+ * editor.history.undo();
+ * ```
+ *
+ * @param properties The names of the recorded signals.
+ * @param options The history options (optional).
+ */
+export function history(
+  properties: string[],
+  options?: Partial<BHistoryOptions>,
+): BDescriptor<BHistory> {
+  return function (target, key) {
+    HistoryRegistry.register(target, {
+      propertyName: key,
+      properties,
+      limit: options?.limit ?? 100,
+    });
+    return undefined as unknown as BHistory;
+  };
+}
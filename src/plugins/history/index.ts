@@ -0,0 +1,3 @@
+import './private/plugins';
+export type { BHistory, BHistoryOptions } from './decorators';
+export { history } from './decorators';
@@ -0,0 +1,178 @@
+import type { BUnsubscribe } from '../../../eventBus';
+import { getNotifyEvents, type BNotifyEvent } from '../../../events';
+import type { BInvocation, BPlugin } from '../../../plugin';
+import { extendPlugins } from '../../../registries';
+import type { BServiceClass, BServiceInstance } from '../../../service';
+import { BHistory, HistoryRegistry } from '../decorators';
+
+type BHistoryChange = {
+  propertyName: string;
+  previousValue: unknown;
+  value: unknown;
+};
+
+type BHistoryState = {
+  undoStack: BHistoryChange[][];
+  redoStack: BHistoryChange[][];
+  /** Steps being recorded, keyed by the outermost pending call that raised their changes */
+  steps: Map<BInvocation, BHistoryChange[]>;
+  /** Values assigned by undo and redo, whose notifications are not recorded */
+  applied: Map<string, unknown>;
+  unsubscribe: BUnsubscribe;
+};
+
+function HistoryPlugin(): BPlugin {
+  const stateMap = new Map<BServiceInstance<unknown>, BHistoryState[]>();
+  const pending = new Set<BInvocation>();
+
+  // Helper function to find the outermost pending call that raised a change
+  function getOwner(event: BNotifyEvent) {
+    let owner: BInvocation | undefined;
+    for (let item = event.invocation; item; item = item.parent)
+      if (pending.has(item)) owner = item;
+    return owner;
+  }
+
+  // Close the steps that were recorded during a function call
+  function closeSteps(invocation: BInvocation) {
+    if (!pending.delete(invocation)) return;
+    stateMap.forEach((states) =>
+      states.forEach((state) => state.steps.delete(invocation)),
+    );
+  }
+
+  return {
+    async onCreate(target: BServiceClass, ref: unknown) {
+      const definitions = HistoryRegistry.get(target);
+      if (!definitions) return;
+      const instance = ref as BServiceInstance<unknown>;
+      const values = ref as Record<string, unknown>;
+      let states = stateMap.get(instance);
+      if (!states) {
+        states = [];
+        stateMap.set(instance, states);
+      }
+
+      definitions.forEach(({ propertyName, properties, limit }) => {
+        const recorded = new Set(properties);
+
+        // Helper function to tell the notifications of undo and redo, which may be flushed by an enclosing batch
+        function isApplied(event: BNotifyEvent) {
+          if (!state.applied.has(event.propertyName)) return false;
+          const value = state.applied.get(event.propertyName);
+          state.applied.delete(event.propertyName);
+          return Object.is(value, event.value);
+        }
+
+        const state: BHistoryState = {
+          undoStack: [],
+          redoStack: [],
+          steps: new Map(),
+          applied: new Map(),
+          unsubscribe: instance.subscribe((message) => {
+            const changes = getNotifyEvents(message).filter(
+              (event) =>
+                !event.path &&
+                recorded.has(event.propertyName) &&
+                !isApplied(event) &&
+                !event.isSimilar,
+            );
+            if (!changes.length) return;
+            state.redoStack.splice(0, state.redoStack.length);
+            // Changes outside of a function call make a step on their own
+            const grouped = new Map<BInvocation | undefined, BNotifyEvent[]>();
+            changes.forEach((event) => {
+              const owner = getOwner(event);
+              grouped.set(owner, [...(grouped.get(owner) ?? []), event]);
+            });
+            grouped.forEach((events, owner) => {
+              let step = owner && state.steps.get(owner);
+              if (!step) {
+                step = [];
+                state.undoStack.push(step);
+                if (state.undoStack.length > limit) state.undoStack.shift();
+                if (owner) state.steps.set(owner, step);
+              }
+              events.forEach(({ propertyName, previousValue, value }) => {
+                const change = step.find(
+                  (item) => item.propertyName === propertyName,
+                );
+                if (change) change.value = value;
+                else step.push({ propertyName, previousValue, value });
+              });
+            });
+          }),
+        };
+        states.push(state);
+
+        function apply(changes: BHistoryChange[], undo: boolean) {
+          instance.container.batch(() => {
+            const ordered = undo ? changes.slice().reverse() : changes;
+            ordered.forEach(({ propertyName, previousValue, value }) => {
+              const next = undo ? previousValue : value;
+              state.applied.set(propertyName, next);
+              values[propertyName] = next;
+            });
+          });
+        }
+
+        const controller: BHistory = {
+          undo() {
+            const step = state.undoStack.pop();
+            if (!step) return;
+            state.steps.clear();
+            apply(step, true);
+            state.redoStack.push(step);
+          },
+          redo() {
+            const step = state.redoStack.pop();
+            if (!step) return;
+            apply(step, false);
+            state.undoStack.push(step);
+          },
+          clearHistory() {
+            state.undoStack.splice(0, state.undoStack.length);
+            state.redoStack.splice(0, state.redoStack.length);
+            state.steps.clear();
+          },
+          get canUndo() {
+            return state.undoStack.length > 0;
+          },
+          get canRedo() {
+            return state.redoStack.length > 0;
+          },
+        };
+
+        Object.defineProperty(instance, propertyName, {
+          configurable: true,
+          enumerable: false,
+          writable: false,
+          value: controller,
+        });
+      });
+    },
+    onBeforeInvoke(invocation) {
+      pending.add(invocation);
+    },
+    onAfterInvoke(invocation) {
+      closeSteps(invocation);
+    },
+    onInvokeError(invocation) {
+      closeSteps(invocation);
+    },
+    async onDestroy(_: BServiceClass, ref: unknown) {
+      const instance = ref as BServiceInstance<unknown>;
+      stateMap.get(instance)?.forEach((state) => state.unsubscribe());
+      stateMap.delete(instance);
+    },
+    async onContainerDispose() {
+      stateMap.forEach((states) =>
+        states.forEach((state) => state.unsubscribe()),
+      );
+      stateMap.clear();
+      pending.clear();
+    },
+  };
+}
+
+extendPlugins(HistoryPlugin);
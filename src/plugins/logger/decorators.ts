@@ -0,0 +1,41 @@
+import { MakeSetRegistry } from '../../registries';
+import type { BDescriptor, BServiceClass } from '../../service';
+
+/**
+ * A custom registry for sensitive properties.
+ * Stores the properties whose values are redacted by the logger.
+ */
+export const SensitiveRegistry = MakeSetRegistry<string>();
+
+/**
+ * A decorator function to mark a property as sensitive.
+ * The values of a sensitive `val` and the arguments and results of a sensitive `func`
+ * are redacted from the logs, the errors thrown by a sensitive `func` are reduced to their name.
+ *
+ * @example
+ * ```tsx
+ * const $Session = Service({ identifier: 'Session' }, {
+ *   token: sensitive(signal(val(''))),
+ *   login: sensitive(func(login)),
+ * });
+ * ```
+ *
+ * @param next - The original method descriptor.
+ * @returns A descriptor function that registers the property as sensitive.
+ */
+export function sensitive<T>(next: BDescriptor<T>): BDescriptor<T> {
+  return function (target, propertyName) {
+    SensitiveRegistry.register(target, propertyName);
+    return next(target, propertyName) as T;
+  };
+}
+
+/**
+ * Whether a property of a service, or of the service it extends, is marked as sensitive.
+ *
+ * @param target The service class.
+ * @param propertyName The name of the property.
+ */
+export function isSensitive(target: BServiceClass, propertyName: string) {
+  return SensitiveRegistry.collect(target).has(propertyName);
+}
@@ -0,0 +1,5 @@
+export { isSensitive, sensitive, SensitiveRegistry } from './decorators';
+export { createLogger, Redacted } from './logger';
+export type { BLoggerOptions, BLogLevel, BLogRecord } from './logger';
+export { consoleSink, memorySink } from './sinks';
+export type { BLogSink } from './sinks';
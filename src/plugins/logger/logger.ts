@@ -0,0 +1,203 @@
+import { IdentifierSymbol } from '../../container';
+import { getNotifyEvents } from '../../events';
+import type { BInvocation, BPlugin, BPluginClass } from '../../plugin';
+import type { BServiceClass, BServiceInstance } from '../../service';
+import { isSensitive } from './decorators';
+import { consoleSink, type BLogSink } from './sinks';
+
+/**
+ * Severity of a log record, from the most to the least verbose.
+ */
+export type BLogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LogLevels: Record<BLogLevel | 'silent', number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+/**
+ * Placeholder of the values of sensitive properties.
+ */
+export const Redacted = '[redacted]';
+
+/**
+ * A structured log record.
+ * - `invoke`: a `func` member has returned or thrown, along with its duration in milliseconds.
+ * - `change`: a signal has changed, from `previousValue` to `value`.
+ * - `create` and `destroy`: a service instance has been created or destroyed.
+ */
+export type BLogRecord = {
+  level: BLogLevel;
+  type: 'invoke' | 'change' | 'create' | 'destroy';
+  time: number;
+  service: string;
+  propertyName?: string;
+  message: string;
+  args?: unknown[];
+  result?: unknown;
+  error?: unknown;
+  duration?: number;
+  value?: unknown;
+  previousValue?: unknown;
+  path?: string;
+};
+
+/**
+ * Options of the logger.
+ */
+export type BLoggerOptions = {
+  /** Sinks receiving the records (default is the console) */
+  sinks?: BLogSink[];
+  /** Minimum level of the records (default is `debug`) */
+  level?: BLogLevel | 'silent';
+  /** Minimum level of the records per service identifier, overriding `level` */
+  levels?: Record<string, BLogLevel | 'silent'>;
+};
+
+// Helper function to keep only the name of an error, as its message often embeds the arguments
+function redactError(error: unknown) {
+  return error instanceof Error ? { name: error.name } : Redacted;
+}
+
+// Helper function to print a value within a message
+function format(value: unknown) {
+  if (typeof value === 'function') return `[Function ${value.name}]`;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Creates a plugin logging the invocations, signal changes and lifecycle of the services.
+ *
+ * @example
+ * ```tsx
+ * import { extendPlugins } from "beatlejs";
+ * import { consoleSink, createLogger, memorySink } from "beatlejs/plugins/logger";
+ *
+ * const recent = memorySink(200);
+ * extendPlugins(
+ *   createLogger({
+ *     sinks: [consoleSink(), recent],
+ *     level: 'info',
+ *     levels: { Session: 'warn' },
+ *   }),
+ * );
+ * ```
+ *
+ * @param sinks - Optional sinks receiving the records (default is the console).
+ * @param level - Optional minimum level of the records (default is `debug`).
+ * @param levels - Optional minimum level of the records per service identifier.
+ * @returns The plugin class, to be registered with `extendPlugins` or `registerPlugin`.
+ */
+export function createLogger({
+  sinks = [consoleSink()],
+  level = 'debug',
+  levels = {},
+}: BLoggerOptions = {}): BPluginClass {
+  return function LoggerPlugin(): BPlugin {
+    const startTimes = new Map<BInvocation, number>();
+    // Instances are logged once, although onCreate and onDestroy run for each class they extend
+    const created = new WeakSet<object>();
+
+    function log(
+      target: BServiceClass,
+      instance: unknown,
+      record: Omit<BLogRecord, 'time' | 'service'>,
+    ) {
+      const threshold = levels[target.identifier] ?? level;
+      if (LogLevels[record.level] < LogLevels[threshold]) return;
+      const output: BLogRecord = {
+        ...record,
+        time: Date.now(),
+        service: (instance as BServiceInstance<unknown>)[IdentifierSymbol],
+      };
+      sinks.forEach((sink) => sink(output));
+    }
+
+    function onSettled(
+      invocation: BInvocation,
+      outcome: { result?: unknown; error?: unknown },
+    ) {
+      const { target, instance, propertyName } = invocation;
+      const start = startTimes.get(invocation);
+      startTimes.delete(invocation);
+      const duration = start === undefined ? 0 : performance.now() - start;
+      const hidden = isSensitive(target, propertyName);
+      const service = (instance as BServiceInstance<unknown>)[IdentifierSymbol];
+      const failed = 'error' in outcome;
+      log(target, instance, {
+        level: failed ? 'error' : 'info',
+        type: 'invoke',
+        propertyName,
+        message: failed
+          ? `${service}.${propertyName} failed after ${duration.toFixed(1)}ms`
+          : `${service}.${propertyName} ran in ${duration.toFixed(1)}ms`,
+        args: hidden ? invocation.args.map(() => Redacted) : invocation.args,
+        duration,
+        ...(failed
+          ? { error: hidden ? redactError(outcome.error) : outcome.error }
+          : { result: hidden ? Redacted : outcome.result }),
+      });
+    }
+
+    return {
+      async onCreate(target: BServiceClass, ref: unknown) {
+        const instance = ref as BServiceInstance<unknown>;
+        if (created.has(instance)) return;
+        created.add(instance);
+        const service = instance[IdentifierSymbol];
+        log(target, instance, {
+          level: 'debug',
+          type: 'create',
+          message: `${service} created`,
+        });
+        // Subscriptions are released along with the bus of the instance
+        instance.subscribe((message) => {
+          getNotifyEvents(message).forEach((event) => {
+            if (event.isSimilar) return;
+            const hidden = isSensitive(target, event.propertyName);
+            const value = hidden ? Redacted : event.value;
+            const previousValue = hidden ? Redacted : event.previousValue;
+            const field = event.path ?? event.propertyName;
+            log(target, instance, {
+              level: 'debug',
+              type: 'change',
+              propertyName: event.propertyName,
+              message: `${service}.${field}: ${format(previousValue)} → ${format(value)}`,
+              value,
+              previousValue,
+              path: event.path,
+            });
+          });
+        });
+      },
+      async onDestroy(target: BServiceClass, ref: unknown) {
+        if (!created.delete(ref as object)) return;
+        const service = (ref as BServiceInstance<unknown>)[IdentifierSymbol];
+        log(target, ref, {
+          level: 'debug',
+          type: 'destroy',
+          message: `${service} destroyed`,
+        });
+      },
+      onBeforeInvoke(invocation) {
+        startTimes.set(invocation, performance.now());
+      },
+      onAfterInvoke(invocation, result) {
+        onSettled(invocation, { result });
+      },
+      onInvokeError(invocation, error) {
+        onSettled(invocation, { error });
+      },
+      async onContainerDispose() {
+        startTimes.clear();
+      },
+    };
+  };
+}
@@ -0,0 +1,54 @@
+import type { BLogRecord } from './logger';
+
+/**
+ * Receives the records of the logger.
+ */
+export type BLogSink = (record: BLogRecord) => void;
+
+/**
+ * A sink writing the records to the console, through the method matching their level.
+ *
+ * @param prefix Text preceding each message (default is `[beatle]`).
+ */
+export function consoleSink(prefix = '[beatle]'): BLogSink {
+  return function (record) {
+    console[record.level](`${prefix} ${record.message}`, record);
+  };
+}
+
+/**
+ * A sink keeping the latest records in memory, dropping the oldest ones once full.
+ *
+ * @example
+ * ```tsx
+ * const sink = memorySink(50);
+ * extendPlugins(createLogger({ sinks: [sink] }));
+ * sink.records();
+ * ```
+ *
+ * @param capacity Maximum number of records kept (default is 100).
+ */
+export function memorySink(capacity = 100) {
+  const buffer: BLogRecord[] = [];
+  let start = 0;
+  function sink(record: BLogRecord) {
+    if (buffer.length < capacity) {
+      buffer.push(record);
+      return;
+    }
+    buffer[start] = record;
+    start = (start + 1) % capacity;
+  }
+  /**
+   * Returns the kept records, from the oldest to the latest one.
+   */
+  sink.records = () => buffer.slice(start).concat(buffer.slice(0, start));
+  /**
+   * Drops every kept record.
+   */
+  sink.clear = () => {
+    buffer.length = 0;
+    start = 0;
+  };
+  return sink;
+}
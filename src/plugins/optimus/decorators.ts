@@ -1,5 +1,6 @@
 import { MakeSetRegistry } from '../../registries';
 import type { BDescriptor } from '../../service';
+import { WrapperRegistry } from '../../wrappers';
 
 export const OptimusRegistry = MakeSetRegistry<string>();
 
@@ -8,6 +9,7 @@ export function optimus<T>(
 ): BDescriptor<T> {
   return function (target, key) {
     OptimusRegistry.register(target, key);
+    WrapperRegistry.register(target, { propertyName: key, kind: 'optimus' });
     return next(target, key) as unknown as T;
   };
 }
@@ -5,14 +5,19 @@ import { PersistRegistry } from './decorators';
 import {
   getKey,
   Symbol_dataProvider,
+  Symbol_onRemoveTriggered,
   Symbol_onSaveTriggered,
 } from './private/symbols';
 import {
   debounce,
   getServiceSnapshot,
+  loadServiceData,
   restoreServiceSnapshot,
 } from './private/utils';
-import { BNotifyEvent, NotifyEventId } from '../../events';
+import { getWindow } from '../../environment';
+import { getNotifyEvents } from '../../events';
+import type { BPlugin } from '../../plugin';
+import type { BPersistData, BPersistStorage } from './storage';
 
 function getProps(target: BServiceClass) {
   let set = PersistRegistry.get(target);
@@ -27,44 +32,79 @@ function getProps(target: BServiceClass) {
 }
 export type BPersistDataProviderFunction = (
   requestedKey: string,
-) => Record<string, unknown> | undefined;
+) =>
+  | Record<string, unknown>
+  | undefined
+  | Promise<Record<string, unknown> | undefined>;
 export type BPersistOnSaveTriggeredFunction = (
   requestedKey: string,
   serviceData: unknown,
 ) => Promise<void> | void;
+export type BPersistOnRemoveTriggeredFunction = (
+  requestedKey: string,
+) => Promise<void> | void;
 
 /**
  * Enable automatic persisting of data.
+ * Either pass a `storage` (see `localStorageAdapter`, `indexedDBAdapter`, `memoryStorage`, or `fileSystemAdapter` from `beatlejs/plugins/persist/node`),
+ * or a `dataProvider` and an `onSaveTriggered` function.
+ * The returned promise resolves once the data of the created services is restored.
+ *
+ * @example
+ * ```tsx
+ * import { browserPersist, localStorageAdapter } from "beatlejs/plugins/persist";
+ *
+ * await browserPersist({ container, storage: localStorageAdapter() });
+ * ```
  *
  * @param container - The DI container managing services and plugins.
- * @param dataProvider - A function that retrieves persisted data for a given key.
- * @param onSaveTriggered - A callback triggered when data needs to be saved.
+ * @param storage - Optional storage loading and saving the data.
+ * @param dataProvider - A function that retrieves persisted data for a given key, used when no storage is given.
+ * @param onSaveTriggered - A callback triggered when data needs to be saved, used when no storage is given.
+ * @param onRemoveTriggered - Optional callback removing the data of older versions once migrated, used when no storage is given.
  * @param debounceInterval - Optional debounce interval for save operations (default is 1000 ms).
  */
 export async function browserPersist({
   container,
-  dataProvider,
-  onSaveTriggered,
+  storage,
+  dataProvider: customDataProvider,
+  onSaveTriggered: customOnSaveTriggered,
+  onRemoveTriggered: customOnRemoveTriggered,
   debounceInterval,
 }: {
   container: BContainer;
-  dataProvider: BPersistDataProviderFunction;
-  onSaveTriggered: BPersistOnSaveTriggeredFunction;
+  storage?: BPersistStorage;
+  dataProvider?: BPersistDataProviderFunction;
+  onSaveTriggered?: BPersistOnSaveTriggeredFunction;
+  onRemoveTriggered?: BPersistOnRemoveTriggeredFunction;
   debounceInterval?: number;
 }) {
+  const dataProvider: BPersistDataProviderFunction =
+    customDataProvider ?? ((key) => storage?.load(key));
+  const onSaveTriggered: BPersistOnSaveTriggeredFunction =
+    customOnSaveTriggered ??
+    ((key, data) => storage?.save(key, data as BPersistData));
   container.setProperty(Symbol_dataProvider, dataProvider);
   container.setProperty(Symbol_onSaveTriggered, onSaveTriggered);
+  container.setProperty<BPersistOnRemoveTriggeredFunction>(
+    Symbol_onRemoveTriggered,
+    customOnRemoveTriggered ?? ((key) => storage?.remove(key)),
+  );
 
-  for (const item of container.getServices()) {
+  for (const item of Array.from(container.getServices())) {
     try {
-      restoreServiceSnapshot(container, item.class, dataProvider(getKey(item.class, item.instance)));
+      restoreServiceSnapshot(
+        container,
+        item.class,
+        await loadServiceData(container, item.class, item.instance),
+      );
     } catch (e) {
       console.error(`error loading service data ${item.instance[IdentifierSymbol]}`, e);
     }
   }
 
   const persist: any = {};
-  const debouncedPersist: any = {};
+  const debouncedPersist: Record<string, ReturnType<typeof debounce>> = {};
 
   function getPersistor(target: BServiceClass, instance: BServiceInstance<unknown>) {
     const identifier = instance[IdentifierSymbol];
@@ -79,44 +119,69 @@ export async function browserPersist({
       });
     return persist[identifier];
   }
+  // Storages save asynchronously, so their failures are reported like the failures of loading
+  function save(target: BServiceClass, instance: BServiceInstance<unknown>) {
+    Promise.resolve()
+      .then(() => getPersistor(target, instance)())
+      .catch((e) => {
+        console.error(
+          `error saving service data ${instance[IdentifierSymbol]}`,
+          e,
+        );
+      });
+  }
   function getDebouncedPersistor(target: BServiceClass, instance: BServiceInstance<unknown>) {
     const identifier = instance[IdentifierSymbol];
     debouncedPersist[identifier] =
       debouncedPersist[identifier] ||
       debounce(() => {
-        getPersistor(target, instance)()
+        save(target, instance);
       }, debounceInterval ?? 1000);
     return debouncedPersist[identifier];
   }
 
-  container.subscribe((a: BNotifyEvent) => {
-    if (!a) return;
-    if (a.type !== NotifyEventId) return;
-    if (a.isSimilar) return;
-    const data = getProps(a.target);
-    if (!data || !data.has(a.propertyName)) return;
-    getDebouncedPersistor(a.target, a.instance)();
+  const unsubscribe = container.subscribe((message: unknown) => {
+    getNotifyEvents(message).forEach((a) => {
+      if (a.isSimilar) return;
+      const data = getProps(a.target);
+      if (!data || !data.has(a.propertyName)) return;
+      getDebouncedPersistor(a.target, a.instance)();
+    });
   });
 
-  ['visibilitychange', 'pagehide', 'freeze', 'beforeunload'].forEach(
-    (eventName) => {
-      window.addEventListener(
-        eventName,
-        () => {
-          if (
-            eventName === 'visibilitychange' &&
-            document.visibilityState === 'visible'
-          )
-            return;
-          for (const item of container.getServices()) {
-            getPersistor(item.class, item.instance)();
-          }
-        },
-        {
-          capture: false,
-          passive: false,
-        },
-      );
-    },
-  );
+  function persistAll(event: Event) {
+    if (
+      event.type === 'visibilitychange' &&
+      document.visibilityState === 'visible'
+    )
+      return;
+    for (const item of container.getServices()) {
+      save(item.class, item.instance);
+    }
+  }
+
+  // Outside of a browser, the data is only saved on changes
+  const target = getWindow();
+  const eventNames = ['visibilitychange', 'pagehide', 'freeze', 'beforeunload'];
+  eventNames.forEach((eventName) => {
+    target?.addEventListener(eventName, persistAll, {
+      capture: false,
+      passive: false,
+    });
+  });
+
+  // Release the listeners along with the container
+  container.registerPlugin(function BrowserPersistPlugin(): BPlugin {
+    return {
+      async onContainerDispose() {
+        unsubscribe();
+        eventNames.forEach((eventName) =>
+          target?.removeEventListener(eventName, persistAll, { capture: false }),
+        );
+        Object.values(debouncedPersist).forEach((persistor) =>
+          persistor.cancel(),
+        );
+      },
+    };
+  });
 }
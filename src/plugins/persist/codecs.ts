@@ -0,0 +1,389 @@
+import { decodeBase64, encodeBase64 } from '../../environment';
+import { PersistCodecError } from '../../errors/PersistCodecError';
+import { deserialize, serialize } from '../../serializers';
+import type { BPersistData, BPersistStorage } from './storage';
+
+/**
+ * A step of the codec pipeline of a storage, transforming the saved bytes (e.g. compression, encryption).
+ */
+export type BPersistCodec = {
+  /** Name of the codec, reported by `PersistCodecError` */
+  name: string;
+  /**
+   * Transforms the bytes to save.
+   *
+   * @param data The bytes produced by the previous codec.
+   * @param key The storage key of the data, which authenticating codecs bind the data to.
+   */
+  encode(data: Uint8Array, key: string): Promise<Uint8Array>;
+  /**
+   * Restores the bytes transformed by `encode`, throws when they can not be restored.
+   *
+   * @param data The saved bytes.
+   * @param key The storage key the data was loaded from.
+   */
+  decode(data: Uint8Array, key: string): Promise<Uint8Array>;
+  /**
+   * Whether the bytes were encoded with outdated settings (e.g. a rotated key),
+   * in which case the data is saved again once loaded.
+   *
+   * @param data The saved bytes.
+   */
+  isStale?(data: Uint8Array): boolean;
+};
+
+/**
+ * Property holding the encoded data within the records of the wrapped storage.
+ */
+export const EncodedField = '$encoded';
+
+/**
+ * Options of `withCodecs`.
+ */
+export type BCodecsOptions = {
+  /**
+   * Whether data saved before the codecs were added is loaded as is, and encoded on its next save (default is false).
+   * Only enable it while migrating existing data, as anyone able to write to the storage could then
+   * replace the encoded data with plain data, bypassing the authentication of the encryption.
+   */
+  allowPlaintext?: boolean;
+};
+
+/**
+ * Wraps a storage so the data goes through a pipeline of codecs before being saved.
+ * Codecs are applied in order when saving, and in reverse order when loading,
+ * so `[compressionCodec(), encryptionCodec(...)]` compresses the data before encrypting it.
+ *
+ * @description
+ * When the data can not be decoded (e.g. a wrong key or tampered data), loading fails with a `PersistCodecError`,
+ * and `browserPersist` keeps the default values of the service.
+ * Data that is not encoded is rejected the same way, unless `allowPlaintext` is enabled to migrate existing data.
+ *
+ * @example
+ * ```tsx
+ * import {
+ *   browserPersist,
+ *   compressionCodec,
+ *   encryptionCodec,
+ *   importEncryptionKey,
+ *   localStorageAdapter,
+ *   withCodecs,
+ * } from "beatlejs/plugins/persist";
+ *
+ * const key = await importEncryptionKey(rawKey);
+ * await browserPersist({
+ *   container,
+ *   storage: withCodecs(localStorageAdapter(), [
+ *     compressionCodec(),
+ *     encryptionCodec({ keys: [{ id: '2024-06', key }] }),
+ *   ]),
+ * });
+ * ```
+ *
+ * @param storage The storage saving the encoded data.
+ * @param codecs The codecs, from the first to the last applied one when saving.
+ * @param options Optional options, see `BCodecsOptions`.
+ */
+export function withCodecs(
+  storage: BPersistStorage,
+  codecs: BPersistCodec[],
+  { allowPlaintext = false }: BCodecsOptions = {},
+): BPersistStorage {
+  async function save(key: string, data: BPersistData) {
+    let bytes = new TextEncoder().encode(JSON.stringify(await serialize(data)));
+    for (const codec of codecs) bytes = await codec.encode(bytes, key);
+    await storage.save(key, { [EncodedField]: encodeBase64(bytes) });
+  }
+
+  return {
+    async load(key) {
+      const record = await storage.load(key);
+      if (!record) return record;
+      if (typeof record[EncodedField] !== 'string') {
+        if (allowPlaintext) return record;
+        throw new PersistCodecError(
+          codecs[codecs.length - 1]?.name ?? 'codecs',
+          key,
+          'the data is not encoded',
+        );
+      }
+      let bytes = decodeBase64(record[EncodedField]);
+      let isStale = false;
+      for (const codec of codecs.slice().reverse()) {
+        try {
+          if (codec.isStale?.(bytes)) isStale = true;
+          bytes = await codec.decode(bytes, key);
+        } catch (e) {
+          throw new PersistCodecError(
+            codec.name,
+            key,
+            e instanceof Error ? e.message : String(e),
+            e,
+          );
+        }
+      }
+      const data = deserialize(JSON.parse(new TextDecoder().decode(bytes)));
+      if (isStale) await save(key, data);
+      return data;
+    },
+    save,
+    remove: (key) => storage.remove(key),
+  };
+}
+
+// Helper function to join the chunks of a stream
+function concat(chunks: Uint8Array[]) {
+  const output = new Uint8Array(
+    chunks.reduce((length, chunk) => length + chunk.length, 0),
+  );
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return output;
+}
+
+// Helper function to run bytes through a compression stream
+async function pipe(
+  data: Uint8Array,
+  stream: CompressionStream | DecompressionStream,
+) {
+  const writer = stream.writable.getWriter();
+  writer.write(data).catch(() => undefined);
+  writer.close().catch(() => undefined);
+  const reader = stream.readable.getReader();
+  const chunks: Uint8Array[] = [];
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  return concat(chunks);
+}
+
+const WindowSize = 4095;
+const MinimumMatch = 3;
+const MaximumMatch = 18;
+
+// A small LZSS compressor, used where `CompressionStream` is not available
+function lzCompress(input: Uint8Array) {
+  const output: number[] = [
+    (input.length >>> 24) & 0xff,
+    (input.length >>> 16) & 0xff,
+    (input.length >>> 8) & 0xff,
+    input.length & 0xff,
+  ];
+  const positions = new Map<number, number>();
+  const hash = (index: number) =>
+    (input[index] << 16) | (input[index + 1] << 8) | input[index + 2];
+  let i = 0;
+  while (i < input.length) {
+    const flagIndex = output.length;
+    output.push(0);
+    for (let bit = 0; bit < 8 && i < input.length; bit++) {
+      let length = 0;
+      let offset = 0;
+      if (i + MinimumMatch <= input.length) {
+        const candidate = positions.get(hash(i));
+        if (candidate !== undefined && i - candidate <= WindowSize) {
+          while (
+            length < MaximumMatch &&
+            i + length < input.length &&
+            input[candidate + length] === input[i + length]
+          )
+            length++;
+          offset = i - candidate;
+        }
+      }
+      if (length < MinimumMatch) length = 1;
+      for (let k = 0; k < length; k++)
+        if (i + k + MinimumMatch <= input.length)
+          positions.set(hash(i + k), i + k);
+      if (length === 1) {
+        output.push(input[i]);
+      } else {
+        output[flagIndex] |= 1 << bit;
+        output.push(
+          offset >> 4,
+          ((offset & 0x0f) << 4) | (length - MinimumMatch),
+        );
+      }
+      i += length;
+    }
+  }
+  return new Uint8Array(output);
+}
+
+function lzDecompress(input: Uint8Array) {
+  const length =
+    ((input[0] << 24) | (input[1] << 16) | (input[2] << 8) | input[3]) >>> 0;
+  const output = new Uint8Array(length);
+  let o = 0;
+  let p = 4;
+  while (o < length) {
+    if (p >= input.length) throw new Error('Unexpected end of data');
+    const flags = input[p++];
+    for (let bit = 0; bit < 8 && o < length; bit++) {
+      if (!(flags & (1 << bit))) {
+        output[o++] = input[p++];
+        continue;
+      }
+      const offset = (input[p] << 4) | (input[p + 1] >> 4);
+      const count = (input[p + 1] & 0x0f) + MinimumMatch;
+      p += 2;
+      if (!offset || offset > o || o + count > length)
+        throw new Error('Corrupted data');
+      for (let k = 0; k < count; k++, o++) output[o] = output[o - offset];
+    }
+  }
+  return output;
+}
+
+const NativeFormat = 1;
+const FallbackFormat = 2;
+
+/**
+ * A codec compressing the data with deflate through `CompressionStream`,
+ * or with a built-in compressor where it is not available.
+ * The format is recorded with the data, so either of them can be decoded where they were produced.
+ */
+export function compressionCodec(): BPersistCodec {
+  return {
+    name: 'compression',
+    async encode(data) {
+      if (typeof CompressionStream === 'undefined')
+        return concat([new Uint8Array([FallbackFormat]), lzCompress(data)]);
+      return concat([
+        new Uint8Array([NativeFormat]),
+        await pipe(data, new CompressionStream('deflate')),
+      ]);
+    },
+    async decode(data) {
+      const body = data.subarray(1);
+      if (data[0] === FallbackFormat) return lzDecompress(body);
+      if (data[0] !== NativeFormat) throw new Error('Unknown format');
+      if (typeof DecompressionStream === 'undefined')
+        throw new Error('DecompressionStream is not available');
+      return pipe(body, new DecompressionStream('deflate'));
+    },
+  };
+}
+
+/**
+ * An AES-GCM key of the encryption codec, the id is saved along with the data to find the key when decrypting.
+ */
+export type BEncryptionKey = {
+  id: string;
+  key: CryptoKey;
+};
+
+/**
+ * Imports a raw AES-GCM key (16, 24 or 32 bytes) for the encryption codec.
+ *
+ * @param raw The key, as bytes or as a base64 string.
+ */
+export function importEncryptionKey(raw: Uint8Array | string) {
+  return crypto.subtle.importKey(
+    'raw',
+    typeof raw === 'string' ? decodeBase64(raw) : raw,
+    'AES-GCM',
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+const EncryptionVersion = 2;
+const IvLength = 12;
+const MaximumIdLength = 255;
+
+// Helper function to read the header of encrypted data
+function readHeader(data: Uint8Array) {
+  if (data[0] !== EncryptionVersion) throw new Error('Unknown format');
+  const idLength = data[1];
+  const id = new TextDecoder().decode(data.subarray(2, 2 + idLength));
+  const iv = data.subarray(2 + idLength, 2 + idLength + IvLength);
+  const header = data.subarray(0, 2 + idLength + IvLength);
+  const body = data.subarray(2 + idLength + IvLength);
+  return { id, iv, header, body };
+}
+
+// Helper function to bind encrypted data to its header and storage key, so it can not be moved under another key
+function getAdditionalData(header: Uint8Array, storageKey: string) {
+  return concat([header, new TextEncoder().encode(storageKey)]);
+}
+
+/**
+ * A codec encrypting the data with AES-GCM through WebCrypto.
+ *
+ * @description
+ * The first key encrypts the data, the other ones are only used to decrypt data saved before a rotation,
+ * which is encrypted again with the first key once loaded.
+ * The data is authenticated along with its storage key, so decryption fails with a `PersistCodecError`
+ * when the key is unknown, the data was tampered with, or it was moved under another storage key.
+ * Key ids are saved as at most 255 bytes of UTF-8.
+ *
+ * @param keys The keys, from the current one to the oldest one.
+ */
+export function encryptionCodec({
+  keys,
+}: {
+  keys: BEncryptionKey[];
+}): BPersistCodec {
+  if (!keys.length)
+    throw new Error('encryptionCodec: At least one key is required');
+  keys.forEach(({ id }) => {
+    if (new TextEncoder().encode(id).length > MaximumIdLength)
+      throw new Error(
+        `encryptionCodec: Key id ${id} is longer than ${MaximumIdLength} bytes`,
+      );
+  });
+  return {
+    name: 'encryption',
+    async encode(data, storageKey) {
+      const [{ id, key }] = keys;
+      const idBytes = new TextEncoder().encode(id);
+      const iv = crypto.getRandomValues(new Uint8Array(IvLength));
+      const header = concat([
+        new Uint8Array([EncryptionVersion, idBytes.length]),
+        idBytes,
+        iv,
+      ]);
+      const body = await crypto.subtle.encrypt(
+        {
+          name: 'AES-GCM',
+          iv,
+          additionalData: getAdditionalData(header, storageKey),
+        },
+        key,
+        data,
+      );
+      return concat([header, new Uint8Array(body)]);
+    },
+    async decode(data, storageKey) {
+      const { id, iv, header, body } = readHeader(data);
+      const entry = keys.find((item) => item.id === id);
+      if (!entry) throw new Error(`Unknown key ${id}`);
+      try {
+        return new Uint8Array(
+          await crypto.subtle.decrypt(
+            {
+              name: 'AES-GCM',
+              iv,
+              additionalData: getAdditionalData(header, storageKey),
+            },
+            entry.key,
+            body,
+          ),
+        );
+      } catch {
+        throw new Error(
+          `Decryption with key ${id} failed, the key is wrong or the data was altered or moved`,
+        );
+      }
+    },
+    isStale(data) {
+      return readHeader(data).id !== keys[0].id;
+    },
+  };
+}
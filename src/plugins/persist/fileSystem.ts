@@ -0,0 +1,39 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { deserialize, serialize } from '../../serializers';
+import type { BPersistStorage } from './storage';
+
+/**
+ * A storage saving the data of each service as a JSON file, for Node.
+ * It is exported from `beatlejs/plugins/persist/node`, so browser bundles never reference the Node modules.
+ *
+ * @param directory The directory of the files, created on first save.
+ */
+export function fileSystemAdapter(directory: string): BPersistStorage {
+  function getFile(key: string) {
+    return join(directory, `${encodeURIComponent(key)}.json`);
+  }
+
+  return {
+    async load(key) {
+      try {
+        const text = await readFile(getFile(key), 'utf8');
+        return deserialize(JSON.parse(text));
+      } catch (e) {
+        if ((e as { code?: string }).code === 'ENOENT') return undefined;
+        throw e;
+      }
+    },
+    async save(key, data) {
+      await mkdir(directory, { recursive: true });
+      await writeFile(
+        getFile(key),
+        JSON.stringify(await serialize(data)),
+        'utf8',
+      );
+    },
+    async remove(key) {
+      await rm(getFile(key), { force: true });
+    },
+  };
+}
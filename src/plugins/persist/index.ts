@@ -1 +1,22 @@
 export { persist } from './decorators';
+export { browserPersist } from './browserPersist';
+export type {
+  BPersistDataProviderFunction,
+  BPersistOnRemoveTriggeredFunction,
+  BPersistOnSaveTriggeredFunction,
+} from './browserPersist';
+export {
+  indexedDBAdapter,
+  localStorageAdapter,
+  memoryStorage,
+  sessionStorageAdapter,
+} from './storage';
+export type { BPersistData, BPersistStorage } from './storage';
+export {
+  compressionCodec,
+  EncodedField,
+  encryptionCodec,
+  importEncryptionKey,
+  withCodecs,
+} from './codecs';
+export type { BCodecsOptions, BEncryptionKey, BPersistCodec } from './codecs';
@@ -0,0 +1 @@
+export { fileSystemAdapter } from './fileSystem';
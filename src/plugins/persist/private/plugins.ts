@@ -1,6 +1,6 @@
-import { BContainer } from '../../../container';
+import { BContainer, IdentifierSymbol } from '../../../container';
 import { BPlugin } from '../../../plugin';
-import { extendPlugins, ServiceRegistry } from '../../../registries';
+import { extendPlugins } from '../../../registries';
 import { BServiceClass, BServiceInstance } from '../../../service';
 import { getVaultFromInstance } from '../../../vault';
 import {
@@ -9,32 +9,41 @@ import {
 } from '../browserPersist';
 import { PersistRegistry } from '../decorators';
 import { getKey, Symbol_dataProvider, Symbol_onSaveTriggered } from './symbols';
-import { getServiceSnapshot } from './utils';
+import { getServiceSnapshot, loadServiceData } from './utils';
 
 function PersistPlugin(container: BContainer | undefined): BPlugin {
-  const clone = new Set<BServiceClass>();
-  ServiceRegistry.forEach((key) => clone.add(key));
+  // Instances are loaded once, although onCreate runs for each class they extend
+  const restored = new WeakSet<object>();
   return {
     async onCreate(
       service: BServiceClass,
       instance: BServiceInstance<unknown>,
     ) {
-      if (clone.has(service)) return;
+      if (restored.has(instance)) return;
       const dataProvider =
         container?.getProperty<BPersistDataProviderFunction>(
           Symbol_dataProvider,
         );
-      if (dataProvider) {
-        const data = dataProvider(getKey(service, instance));
+      if (container && dataProvider) {
+        restored.add(instance);
+        // Services resolved asynchronously are ready once their data is loaded
+        let data: Record<string, unknown> | undefined;
+        try {
+          data = await loadServiceData(container, service, instance);
+        } catch (e) {
+          console.error(
+            `error loading service data ${instance[IdentifierSymbol]}`,
+            e,
+          );
+        }
         if (data) {
           const vault = getVaultFromInstance(instance);
           const obj: Record<string, unknown> = instance;
           Object.entries(data).forEach(([key, value]) => {
-            vault.set(key, { value });
+            if (!vault.has(key)) return;
             obj[key] = value;
           });
         }
-        clone.add(service);
       }
     },
     async onDestroy(service: BServiceClass, instance: BServiceInstance<never>) {
@@ -48,9 +57,15 @@ function PersistPlugin(container: BContainer | undefined): BPlugin {
           PersistRegistry.get(service),
         );
         if (snapshot) {
-          onSaveTriggered(getKey(service, instance), snapshot);
+          Promise.resolve()
+            .then(() => onSaveTriggered(getKey(service, instance), snapshot))
+            .catch((e) => {
+              console.error(
+                `error saving service data ${instance[IdentifierSymbol]}`,
+                e,
+              );
+            });
         }
-        clone.delete(service);
       }
     },
   };
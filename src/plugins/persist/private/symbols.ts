@@ -3,7 +3,12 @@ import { BServiceClass, BServiceInstance } from "../../../service";
 
 export const Symbol_dataProvider = Symbol('dataProvider');
 export const Symbol_onSaveTriggered = Symbol('onSaveTriggered');
+export const Symbol_onRemoveTriggered = Symbol('onRemoveTriggered');
 
-export function getKey(target: BServiceClass, instance: BServiceInstance<unknown>) {
-  return `${instance[IdentifierSymbol]}_${target.version}`;
+export function getKey(
+  target: BServiceClass,
+  instance: BServiceInstance<unknown>,
+  version = target.version,
+) {
+  return `${instance[IdentifierSymbol]}_${version}`;
 }
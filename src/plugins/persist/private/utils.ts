@@ -1,10 +1,22 @@
 import { BContainer } from "../../../container";
 import { BServiceClass, BServiceDefinition, BServiceInstance } from "../../../service";
+import { getVaultFromInstance } from "../../../vault";
+import type {
+  BPersistDataProviderFunction,
+  BPersistOnRemoveTriggeredFunction,
+  BPersistOnSaveTriggeredFunction,
+} from "../browserPersist";
+import {
+  getKey,
+  Symbol_dataProvider,
+  Symbol_onRemoveTriggered,
+  Symbol_onSaveTriggered,
+} from "./symbols";
 
 
 export function debounce(fn: (...args: any) => void, ms: number) {
   let tm: number | undefined = undefined;
-  return function replacement(...args: any[]) {
+  function replacement(...args: any[]) {
     if (tm) {
       clearTimeout(tm);
       tm = undefined;
@@ -13,7 +25,12 @@ export function debounce(fn: (...args: any) => void, ms: number) {
       fn.apply(null, args);
       tm = undefined;
     }, ms) as unknown as number;
+  }
+  replacement.cancel = () => {
+    clearTimeout(tm);
+    tm = undefined;
   };
+  return replacement;
 }
 
 export  function restoreServiceSnapshot(
@@ -36,10 +53,52 @@ export function getServiceSnapshot(
   if (!properties) return;
   const output: Record<string, unknown> = {};
   let isServiceExportable = false;
+  // Raw values are read from the vault, so deep signals are saved without their proxies
+  const vault = getVaultFromInstance(instance);
   properties.forEach((propertyName) => {
-    output[String(propertyName)] = instance[propertyName];
+    const entry = vault.get(propertyName);
+    output[String(propertyName)] = entry ? entry.value : instance[propertyName];
     isServiceExportable = true;
   });
   if (!isServiceExportable) return;
   return output;
 }
+
+/**
+ * Loads the persisted data of a service instance.
+ * When nothing is saved for the current version, the data of the latest older version is migrated,
+ * saved under the current key, and the keys of the older versions are removed.
+ */
+export async function loadServiceData(
+  container: BContainer,
+  target: BServiceClass,
+  instance: BServiceInstance<unknown>,
+) {
+  const dataProvider =
+    container.getProperty<BPersistDataProviderFunction>(Symbol_dataProvider);
+  if (!dataProvider) return;
+  const data = await dataProvider(getKey(target, instance));
+  const version = target.version ?? 1;
+  if (data || version <= 1) return data;
+
+  for (let from = version - 1; from >= 1; from--) {
+    let migrated = await dataProvider(getKey(target, instance, from));
+    if (!migrated) continue;
+    for (let to = from + 1; to <= version; to++) {
+      const migration = target.migrations?.[to];
+      if (migration) migrated = await migration(migrated);
+    }
+    const onSaveTriggered =
+      container.getProperty<BPersistOnSaveTriggeredFunction>(
+        Symbol_onSaveTriggered,
+      );
+    const onRemoveTriggered =
+      container.getProperty<BPersistOnRemoveTriggeredFunction>(
+        Symbol_onRemoveTriggered,
+      );
+    await onSaveTriggered?.(getKey(target, instance), migrated);
+    for (let old = 1; old < version; old++)
+      await onRemoveTriggered?.(getKey(target, instance, old));
+    return migrated;
+  }
+}
@@ -0,0 +1,185 @@
+import { deserialize, serialize } from '../../serializers';
+
+/**
+ * The persisted data of a service, keyed by property name.
+ */
+export type BPersistData = Record<string, unknown>;
+
+/**
+ * A storage used by `browserPersist` to load and save the persisted data of the services.
+ * Loading may be asynchronous, in which case the services resolved through `resolveByClass`
+ * are only ready once their data is restored.
+ */
+export type BPersistStorage = {
+  /**
+   * Loads the data saved under a key.
+   *
+   * @param key The key of the service instance.
+   */
+  load(
+    key: string,
+  ): BPersistData | undefined | Promise<BPersistData | undefined>;
+  /**
+   * Saves the data of a service instance.
+   *
+   * @param key The key of the service instance.
+   * @param data The persisted properties of the service.
+   */
+  save(key: string, data: BPersistData): void | Promise<void>;
+  /**
+   * Removes the data saved under a key.
+   *
+   * @param key The key of the service instance.
+   */
+  remove(key: string): void | Promise<void>;
+};
+
+/**
+ * A storage keeping the data in memory, for tests and server rendering.
+ */
+export function memoryStorage(): BPersistStorage {
+  const map = new Map<string, BPersistData>();
+  return {
+    load(key) {
+      const data = map.get(key);
+      return data && structuredClone(data);
+    },
+    save(key, data) {
+      map.set(key, structuredClone(data));
+    },
+    remove(key) {
+      map.delete(key);
+    },
+  };
+}
+
+// Helper function to build a storage on top of the Web Storage API
+function webStorage(
+  getStorage: () => Storage | undefined,
+  prefix: string,
+): BPersistStorage {
+  const fallback = memoryStorage();
+  return {
+    load(key) {
+      const storage = getStorage();
+      if (!storage) return fallback.load(key);
+      const text = storage.getItem(`${prefix}${key}`);
+      if (!text) return undefined;
+      return deserialize(JSON.parse(text));
+    },
+    async save(key, data) {
+      const storage = getStorage();
+      if (!storage) return fallback.save(key, data);
+      storage.setItem(`${prefix}${key}`, JSON.stringify(await serialize(data)));
+    },
+    remove(key) {
+      const storage = getStorage();
+      if (!storage) return fallback.remove(key);
+      storage.removeItem(`${prefix}${key}`);
+    },
+  };
+}
+
+/**
+ * A storage saving the data in `localStorage`, falling back to memory where it is not available.
+ *
+ * @param prefix Prefix of the keys (default is `beatle:`).
+ */
+export function localStorageAdapter(prefix = 'beatle:') {
+  return webStorage(
+    () => (typeof localStorage !== 'undefined' ? localStorage : undefined),
+    prefix,
+  );
+}
+
+/**
+ * A storage saving the data in `sessionStorage`, falling back to memory where it is not available.
+ *
+ * @param prefix Prefix of the keys (default is `beatle:`).
+ */
+export function sessionStorageAdapter(prefix = 'beatle:') {
+  return webStorage(
+    () => (typeof sessionStorage !== 'undefined' ? sessionStorage : undefined),
+    prefix,
+  );
+}
+
+// Helper function to wrap a request of IndexedDB in a promise
+function request<T>(req: IDBRequest<T>) {
+  return new Promise<T>((acc, rej) => {
+    req.onsuccess = () => acc(req.result);
+    req.onerror = () => rej(req.error);
+  });
+}
+
+/**
+ * A storage saving the data in IndexedDB.
+ * Values are stored as structured clones, so dates, maps, sets and blobs are kept as is.
+ *
+ * @param databaseName Name of the database (default is `beatle`).
+ * @param storeName Name of the object store (default is `persist`), adapters may share a database with different stores.
+ */
+export function indexedDBAdapter({
+  databaseName = 'beatle',
+  storeName = 'persist',
+}: { databaseName?: string; storeName?: string } = {}): BPersistStorage {
+  let opening: Promise<IDBDatabase> | undefined;
+
+  // The database is opened on first use
+  function open() {
+    if (!opening)
+      opening = connect().catch((e) => {
+        opening = undefined;
+        throw e;
+      });
+    return opening;
+  }
+
+  // Stores are only created by upgrades, so the version is bumped when another adapter created the database
+  async function connect(version?: number): Promise<IDBDatabase> {
+    const req = indexedDB.open(databaseName, version);
+    req.onupgradeneeded = () => {
+      if (!req.result.objectStoreNames.contains(storeName))
+        req.result.createObjectStore(storeName);
+    };
+    let database: IDBDatabase;
+    try {
+      database = await request(req);
+    } catch (e) {
+      // Another adapter upgraded the database in the meantime
+      if (version && (e as Error | null)?.name === 'VersionError')
+        return connect();
+      throw e;
+    }
+    if (!database.objectStoreNames.contains(storeName)) {
+      database.close();
+      return connect(database.version + 1);
+    }
+    // Let the other adapters upgrade the database, it is opened again on next use
+    database.onversionchange = () => {
+      database.close();
+      opening = undefined;
+    };
+    return database;
+  }
+
+  async function getStore(mode: IDBTransactionMode) {
+    const database = await open();
+    return database.transaction(storeName, mode).objectStore(storeName);
+  }
+
+  return {
+    async load(key) {
+      const store = await getStore('readonly');
+      return (await request(store.get(key))) as BPersistData | undefined;
+    },
+    async save(key, data) {
+      const store = await getStore('readwrite');
+      await request(store.put(data, key));
+    },
+    async remove(key) {
+      const store = await getStore('readwrite');
+      await request(store.delete(key));
+    },
+  };
+}
@@ -1,6 +1,7 @@
 import { MakeArrayRegistry } from '../../registries';
 import { BDescriptor } from '../../service';
 import { DePromise } from '../../types';
+import { WrapperRegistry } from '../../wrappers';
 
 /**
  * Options for configuring the retry behavior.
@@ -49,6 +50,7 @@ export function retry<T extends (...args: any[]) => any>(
       maximumDelay: options?.maximumDelay ?? 32_000,
       retryCurve: options?.retryCurve ?? 'linear',
     });
+    WrapperRegistry.register(target, { propertyName: key, kind: 'retry' });
     return next(target, key);
   };
 }
@@ -1,12 +1,11 @@
 import { IdentifierSymbol } from '../../../container';
-import { TypeError } from '../../../errors/TypeError';
 import type { BPlugin } from '../../../plugin';
 import { extendPlugins } from '../../../registries';
 import type { BServiceClass, BServiceInstance } from '../../../service';
+import { getActiveSpan, runInSpan } from '../../../tracing';
+import type { BWrappedFunction } from '../../../wrappers';
 import { RetryRegistry } from '../decorators';
 
-type BRetryFunction = (...args: unknown[]) => Promise<void> | void;
-
 function RetryPlugin(): BPlugin {
   const timerMap = new Map<
     BServiceInstance<never>,
@@ -14,72 +13,76 @@ function RetryPlugin(): BPlugin {
   >();
 
   return {
-    async onCreate(target: BServiceClass, instance: BServiceInstance<never>) {
-      const definitions = RetryRegistry.get(target);
-      if (!definitions) return;
-      let timers = timerMap.get(instance);
+    onWrap(
+      target: BServiceClass,
+      instance: unknown,
+      propertyName: string,
+      kind: string,
+      next: BWrappedFunction,
+    ) {
+      if (kind !== 'retry') return;
+      const definition = RetryRegistry.get(target)?.find(
+        (item) => item.propertyName === propertyName,
+      );
+      if (!definition) return;
+      const { interval, shots, maximumDelay, retryCurve } = definition;
+      const key = instance as BServiceInstance<never>;
+      const identifier = key[IdentifierSymbol];
+      let timers = timerMap.get(key);
       if (!timers) {
         timers = [];
-        timerMap.set(instance, timers);
+        timerMap.set(key, timers);
       }
+      const index = timers.length;
 
-      definitions.forEach(
-        ({ propertyName, interval, shots, maximumDelay, retryCurve }) => {
-          const proxyFunction: BRetryFunction = instance[propertyName];
-          if (typeof proxyFunction !== 'function') {
-            throw new TypeError(instance[IdentifierSymbol], propertyName, 'retry plugin only works on functions');
-          }
-          const index = timers.length;
-
-          let counter = 1;
-          let delay = interval;
-          let running = false;
+      let counter = 1;
+      let delay = interval;
+      let running = false;
 
-          async function replacementFunction(...args: string[]) {
-            if (!timers || running) return;
-            running = true;
-            timers[index] = undefined;
+      async function replacementFunction(...args: unknown[]) {
+        if (!timers || running) return;
+        running = true;
+        timers[index] = undefined;
+        counter = 1;
+        delay = interval;
+        // The span of the traced call is kept active for each attempt and reports their number
+        const span = getActiveSpan();
 
-            await new Promise(function callee(acc, rej) {
-              Promise.resolve(proxyFunction.apply(instance, args))
-                .then((result) => {
-                  acc(result);
-                  running = false;
-                  timers[index] = undefined;
-                })
-                .catch((e) => {
-                  console.error(
-                    `${instance[IdentifierSymbol]}.${propertyName}: Runtime failure,`,
-                    e,
-                  );
+        return await new Promise(function callee(acc, rej) {
+          span?.setAttribute('retry.attempts', counter);
+          const call = () => next.apply(instance, args);
+          Promise.resolve(span ? runInSpan(span, call) : call())
+            .then((result) => {
+              acc(result);
+              running = false;
+              timers[index] = undefined;
+            })
+            .catch((e) => {
+              console.error(
+                `${identifier}.${propertyName}: Runtime failure,`,
+                e,
+              );
 
-                  if (shots !== 0 && counter >= shots) {
-                    rej(e);
-                    running = false;
-                    timers[index] = undefined;
-                    return;
-                  }
+              if (shots !== 0 && counter >= shots) {
+                rej(e);
+                running = false;
+                timers[index] = undefined;
+                return;
+              }
 
-                  if (retryCurve === 'log')
-                    delay = Math.min(delay * 2, maximumDelay);
+              if (retryCurve === 'log')
+                delay = Math.min(delay * 2, maximumDelay);
 
-                  console.error(
-                    `${instance[IdentifierSymbol]}.${propertyName}: Retrying in ${delay / 1000} seconds.`,
-                  );
+              console.error(
+                `${identifier}.${propertyName}: Retrying in ${delay / 1000} seconds.`,
+              );
 
-                  timers[index] = setTimeout(() => callee(acc, rej), delay);
-                  counter++;
-                });
+              timers[index] = setTimeout(() => callee(acc, rej), delay);
+              counter++;
             });
-          }
-          Object.defineProperty(instance, propertyName, {
-            configurable: true,
-            enumerable: false,
-            writable: false,
-            value: replacementFunction,
-          });
-        },
-      );
+        });
+      }
+      return replacementFunction;
     },
     async onDestroy(_: BServiceClass, instance: BServiceInstance<never>) {
       const timers = timerMap.get(instance);
@@ -87,6 +90,11 @@ function RetryPlugin(): BPlugin {
         timers.forEach(clearTimeout);
         timers.splice(0, timers.length);
       }
+      timerMap.delete(instance);
+    },
+    async onContainerDispose() {
+      timerMap.forEach((timers) => timers.forEach(clearTimeout));
+      timerMap.clear();
     },
   };
 }
@@ -0,0 +1,196 @@
+import { BContainer, IdentifierSymbol } from '../../container';
+import { deepEqual } from '../../equality';
+import { getNotifyEvents } from '../../events';
+import type { BPlugin } from '../../plugin';
+import { deserialize, serialize } from '../../serializers';
+import type { BServiceClass, BServiceInstance } from '../../service';
+import { getVaultFromInstance } from '../../vault';
+import { getSyncedProperties } from './decorators';
+import {
+  broadcastChannelTransport,
+  storageEventTransport,
+  type BSyncMessage,
+  type BSyncTransport,
+} from './transports';
+
+/**
+ * Synchronizes the properties marked with `sync` across the tabs of a browser.
+ *
+ * @description
+ * Changes are picked from the notifications of the container, like `browserPersist` does,
+ * and sent through a `BroadcastChannel` (or `storage` events where it is not available).
+ * Changes received from other tabs are applied to the services created by the container without being sent back.
+ * When both tabs changed a property, the latest change wins, unless the property declares a `merge` function.
+ * A merged value that differs from the received one is sent back, so the other tabs settle on it as well.
+ * Changes made at the same time are ordered by the random id of their tab, so the tabs settle on the same value.
+ *
+ * @example
+ * ```tsx
+ * import { crossTabSync } from "beatlejs/plugins/sync";
+ *
+ * const container = Container();
+ * await browserPersist({ container, storage: localStorageAdapter() });
+ * crossTabSync({ container });
+ * ```
+ *
+ * @param container - The DI container managing services and plugins.
+ * @param channelName - Optional name of the channel shared by the tabs (default is `beatlejs-sync`).
+ * @param transport - Optional transport, chosen from the features of the environment by default.
+ */
+export function crossTabSync({
+  container,
+  channelName = 'beatlejs-sync',
+  transport = typeof BroadcastChannel !== 'undefined'
+    ? broadcastChannelTransport(channelName)
+    : storageEventTransport(channelName),
+}: {
+  container: BContainer;
+  channelName?: string;
+  transport?: BSyncTransport;
+}) {
+  const source = Math.random().toString(36).slice(2);
+  // Time and tab of the latest change of each property
+  const versions = new WeakMap<object, Map<string, BSyncVersion>>();
+  // The property being assigned with a received change, which is not sent back
+  let applying: { instance: object; propertyName: string } | undefined;
+  let connected = true;
+
+  function getVersions(instance: object) {
+    let map = versions.get(instance);
+    if (!map) {
+      map = new Map();
+      versions.set(instance, map);
+    }
+    return map;
+  }
+
+  async function post(
+    instance: BServiceInstance<unknown>,
+    propertyName: string,
+    timestamp: number,
+    merged?: boolean,
+  ) {
+    // Raw values are read from the vault, so deep signals are sent without their proxies
+    const value = getVaultFromInstance(instance).get(propertyName)?.value;
+    const message: BSyncMessage = {
+      source,
+      key: instance[IdentifierSymbol],
+      propertyName,
+      value: await serialize(value),
+      timestamp,
+      merged,
+    };
+    if (connected) transport.post(message);
+  }
+
+  const unsubscribe = container.subscribe((message: unknown) => {
+    getNotifyEvents(message).forEach((event) => {
+      if (event.isSimilar) return;
+      if (
+        applying?.instance === event.instance &&
+        applying.propertyName === event.propertyName
+      )
+        return;
+      if (!getSyncedProperties(event.target).has(event.propertyName)) return;
+      const timestamp = Date.now();
+      getVersions(event.instance).set(event.propertyName, {
+        timestamp,
+        source,
+      });
+      post(event.instance, event.propertyName, timestamp).catch((e) =>
+        console.error(`${event.instance[IdentifierSymbol]}: Sync failed,`, e),
+      );
+    });
+  });
+
+  function find(key: string) {
+    for (const item of container.getServices())
+      if (item.instance[IdentifierSymbol] === key) return item;
+  }
+
+  function apply(message: BSyncMessage) {
+    if (message.source === source) return;
+    const item = find(message.key);
+    if (!item) return;
+    const options = getSyncedProperties(item.class as BServiceClass).get(
+      message.propertyName,
+    );
+    if (!options) return;
+    const instance = item.instance as Record<string, unknown>;
+    const entry = getVaultFromInstance(item.instance).get(message.propertyName);
+    if (!entry) return;
+    const versionMap = getVersions(item.instance);
+    const local = versionMap.get(message.propertyName);
+    const version = { timestamp: message.timestamp, source: message.source };
+    const isLatest = !local || isNewer(version, local);
+    const remote = deserialize(message.value);
+    let value = remote;
+    let merged = false;
+    // Merged values are settled by their version, so tabs do not merge each other's results forever
+    if (options.merge && !message.merged) {
+      value = options.merge({
+        local: entry.value,
+        remote,
+        localTimestamp: local?.timestamp ?? 0,
+        remoteTimestamp: message.timestamp,
+      });
+      merged = !deepEqual(value, remote);
+    } else if (!isLatest) {
+      return;
+    }
+    const settled = merged
+      ? { timestamp: Math.max(Date.now(), message.timestamp + 1), source }
+      : local && !isLatest
+        ? local
+        : version;
+    versionMap.set(message.propertyName, settled);
+    const previous = applying;
+    applying = { instance: item.instance, propertyName: message.propertyName };
+    try {
+      instance[message.propertyName] = value;
+    } finally {
+      applying = previous;
+    }
+    if (!merged) return;
+    post(item.instance, message.propertyName, settled.timestamp, true).catch(
+      (e) => console.error(`${message.key}: Sync failed,`, e),
+    );
+  }
+
+  const unsubscribeTransport = transport.subscribe(apply);
+
+  /**
+   * Stops synchronizing the container and releases the transport.
+   */
+  function disconnect() {
+    if (!connected) return;
+    connected = false;
+    unsubscribe();
+    unsubscribeTransport();
+    transport.close();
+  }
+
+  // Release the transport along with the container
+  container.registerPlugin(function CrossTabSyncPlugin(): BPlugin {
+    return {
+      async onContainerDispose() {
+        disconnect();
+      },
+    };
+  });
+
+  return { disconnect };
+}
+
+type BSyncVersion = {
+  timestamp: number;
+  source: string;
+};
+
+// Changes made at the same time are ordered by their tab, so every tab settles on the same value
+function isNewer(a: BSyncVersion, b: BSyncVersion) {
+  return (
+    a.timestamp > b.timestamp ||
+    (a.timestamp === b.timestamp && a.source > b.source)
+  );
+}
@@ -0,0 +1,87 @@
+import { MakeArrayRegistry } from '../../registries';
+import type { BDescriptor, BServiceClass } from '../../service';
+
+/**
+ * Describes a change of a synchronized property, passed to the merge function of `sync`.
+ */
+export type BSyncConflict<T> = {
+  /** The value of the property in this tab */
+  local: T;
+  /** The value received from another tab */
+  remote: T;
+  /** When the property was last changed in this tab, 0 when it was never changed */
+  localTimestamp: number;
+  /** When the property was changed in the other tab */
+  remoteTimestamp: number;
+};
+
+/**
+ * Options for synchronizing a property across tabs.
+ * - `merge`: Resolves the value to keep when a change is received, the latest change wins by default.
+ */
+export type BSyncOptions<T> = {
+  /** Returns the value of the property once a change is received */
+  merge?: (conflict: BSyncConflict<T>) => T;
+};
+
+/**
+ * A custom registry for synchronized properties.
+ * Stores the properties shared across the tabs of a browser, with their merge function.
+ */
+export const SyncRegistry = MakeArrayRegistry<
+  BSyncOptions<never> & {
+    propertyName: string;
+  }
+>();
+
+/**
+ * Decorator function to synchronize a property across the tabs of a browser, see `crossTabSync`.
+ * The property should be a signal, so its changes are notified.
+ *
+ * @example
+ * ```tsx
+ * import { Service, val } from "beatlejs";
+ * import { signal } from "beatlejs/react";
+ * import { sync } from "beatlejs/plugins/sync";
+ *
+ * const $Cart = Service({ identifier: 'Cart' }, {
+ *   theme: sync(signal(val('light'))),
+ *   items: sync(signal(val<string[]>([])), {
+ *     merge: ({ local, remote }) => Array.from(new Set([...local, ...remote])),
+ *   }),
+ * });
+ * ```
+ *
+ * @param next The original method descriptor.
+ * @param options The sync options (optional).
+ */
+export function sync<T>(
+  next: BDescriptor<T>,
+  options?: BSyncOptions<T>,
+): BDescriptor<T> {
+  return function (target, propertyName) {
+    SyncRegistry.register(target, {
+      propertyName,
+      merge: options?.merge as BSyncOptions<never>['merge'],
+    });
+    return next(target, propertyName) as T;
+  };
+}
+
+/**
+ * Returns the synchronized properties of a service, including the ones of the service it extends.
+ *
+ * @param target The service class.
+ */
+export function getSyncedProperties(target: BServiceClass) {
+  const output = new Map<string, BSyncOptions<unknown>>();
+  let current: BServiceClass | undefined = target;
+  while (current) {
+    SyncRegistry.get(current)?.forEach(({ propertyName, merge }) => {
+      if (!output.has(propertyName))
+        output.set(propertyName, { merge } as BSyncOptions<unknown>);
+    });
+    current = current.extends as BServiceClass | undefined;
+  }
+  return output;
+}
@@ -0,0 +1,5 @@
+export type { BSyncConflict, BSyncOptions } from './decorators';
+export { getSyncedProperties, sync, SyncRegistry } from './decorators';
+export { crossTabSync } from './crossTabSync';
+export { broadcastChannelTransport, storageEventTransport } from './transports';
+export type { BSyncMessage, BSyncTransport } from './transports';
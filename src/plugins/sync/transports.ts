@@ -0,0 +1,94 @@
+import { getWindow } from '../../environment';
+import type { BUnsubscribe } from '../../eventBus';
+
+/**
+ * A change of a synchronized property, sent to the other tabs.
+ */
+export type BSyncMessage = {
+  /** Id of the tab sending the change */
+  source: string;
+  /** Identifier of the service instance */
+  key: string;
+  propertyName: string;
+  /** The value, serialized with `serialize` */
+  value: unknown;
+  timestamp: number;
+  /** Whether the value results from merging the changes of several tabs */
+  merged?: boolean;
+};
+
+/**
+ * Carries the changes of synchronized properties between the tabs.
+ */
+export type BSyncTransport = {
+  /**
+   * Sends a change to the other tabs.
+   *
+   * @param message message to send
+   */
+  post(message: BSyncMessage): void;
+  /**
+   * Listens to the changes sent by the other tabs.
+   *
+   * @param listener listener function
+   */
+  subscribe(listener: (message: BSyncMessage) => void): BUnsubscribe;
+  /**
+   * Releases the transport.
+   */
+  close(): void;
+};
+
+/**
+ * A transport sending the changes through a `BroadcastChannel`.
+ *
+ * @param name The name of the channel.
+ */
+export function broadcastChannelTransport(name: string): BSyncTransport {
+  const channel = new BroadcastChannel(name);
+  return {
+    post(message) {
+      channel.postMessage(message);
+    },
+    subscribe(listener) {
+      function onMessage(event: MessageEvent) {
+        listener(event.data as BSyncMessage);
+      }
+      channel.addEventListener('message', onMessage);
+      return () => channel.removeEventListener('message', onMessage);
+    },
+    close() {
+      channel.close();
+    },
+  };
+}
+
+/**
+ * A transport sending the changes through `storage` events, for browsers without `BroadcastChannel`.
+ * Each change is written to `localStorage` under the name, then removed.
+ *
+ * @param name The key of the changes in `localStorage`.
+ */
+export function storageEventTransport(name: string): BSyncTransport {
+  const target = getWindow();
+  return {
+    post(message) {
+      if (!target) return;
+      target.localStorage.setItem(name, JSON.stringify(message));
+      target.localStorage.removeItem(name);
+    },
+    subscribe(listener) {
+      function onStorage(event: StorageEvent) {
+        if (event.key !== name || !event.newValue) return;
+        try {
+          listener(JSON.parse(event.newValue) as BSyncMessage);
+        } catch (e) {
+          console.error(`${name}: Invalid sync message,`, e);
+        }
+      }
+      target?.addEventListener('storage', onStorage);
+      return () => target?.removeEventListener('storage', onStorage);
+    },
+    close() {},
+  };
+}
@@ -1,5 +1,6 @@
 import { MakeArrayRegistry } from '../../registries';
 import type { BDescriptor } from '../../service';
+import { WrapperRegistry } from '../../wrappers';
 
 /**
  * Options to configure a timer, including the interval between executions, the number of shots, and whether the timer starts manually.
@@ -44,6 +45,7 @@ export function timer<T>(
       startManually: options?.startManually ?? false,
       shots: options?.shots ?? 0,
     });
+    WrapperRegistry.register(target, { propertyName: key, kind: 'timer' });
     return next(target, key) as unknown as VoidFunction;
   };
 }
@@ -1,76 +1,83 @@
-import { IdentifierSymbol } from '../../../container';
-import { TypeError } from '../../../errors/TypeError';
 import type { BPlugin } from '../../../plugin';
 import { extendPlugins } from '../../../registries';
 import type { BServiceClass, BServiceInstance } from '../../../service';
+import type { BWrappedFunction } from '../../../wrappers';
 import { TimerRegistry } from '../decorators';
 
-type BTimerFunction = (
-  elapsed: number,
-  count: number,
-) => boolean | undefined | void;
-
 function TimerPlugin(): BPlugin {
   const timerMap = new Map<
     BServiceInstance<never>,
     (NodeJS.Timeout | undefined)[]
   >();
+  const startMap = new Map<BServiceInstance<never>, VoidFunction[]>();
 
   return {
-    async onCreate(target: BServiceClass, instance: BServiceInstance<never>) {
-      const definitions = TimerRegistry.get(target);
-      if (!definitions) return;
-      let timers = timerMap.get(instance);
+    onWrap(
+      target: BServiceClass,
+      instance: unknown,
+      propertyName: string,
+      kind: string,
+      next: BWrappedFunction,
+    ) {
+      if (kind !== 'timer') return;
+      const definition = TimerRegistry.get(target)?.find(
+        (item) => item.propertyName === propertyName,
+      );
+      if (!definition) return;
+      const { interval, shots, startManually } = definition;
+      const key = instance as BServiceInstance<never>;
+      let timers = timerMap.get(key);
       if (!timers) {
         timers = [];
-        timerMap.set(instance, timers);
+        timerMap.set(key, timers);
       }
-      definitions.forEach(
-        ({ propertyName, interval, shots, startManually }) => {
-          const proxyFunction: BTimerFunction = instance[propertyName];
-          if (typeof proxyFunction !== 'function') {
-            throw new TypeError(instance[IdentifierSymbol], propertyName, 'timer plugin only works on functions');
-          }
-          const index = timers.length;
-          let running = false;
+      const index = timers.length;
+      let running = false;
 
-          function timerFunction(elapsed = 0, counter = 0) {
-            if (!timers) return;
-            running = true;
-            timers[index] = undefined;
+      function timerFunction(elapsed = 0, counter = 0) {
+        if (!timers) return;
+        running = true;
+        timers[index] = undefined;
 
-            const result = proxyFunction.call(instance, elapsed, counter);
+        const result = next.call(instance, elapsed, counter);
 
-            if (result === false) {
-              running = false;
-              timers[index] = undefined;
-              return;
-            }
-            if (shots === 0 || counter < shots - 1) {
-              timers[index] = setTimeout(() => {
-                timerFunction(elapsed + interval, counter + 1);
-              }, interval);
-            } else {
-              running = false;
-              timers[index] = undefined;
-            }
-          }
+        if (result === false) {
+          running = false;
+          timers[index] = undefined;
+          return;
+        }
+        if (shots === 0 || counter < shots - 1) {
+          timers[index] = setTimeout(() => {
+            timerFunction(elapsed + interval, counter + 1);
+          }, interval);
+        } else {
+          running = false;
+          timers[index] = undefined;
+        }
+      }
 
-          function starter() {
-            if (running) return;
-            timerFunction();
-          }
+      function starter() {
+        if (running) return;
+        timerFunction();
+      }
 
-          if (!startManually) timerFunction();
+      // Timers are started once the instance is created
+      if (!startManually) {
+        let starters = startMap.get(key);
+        if (!starters) {
+          starters = [];
+          startMap.set(key, starters);
+        }
+        starters.push(starter);
+      }
+      return starter;
+    },
 
-          Object.defineProperty(instance, propertyName, {
-            configurable: true,
-            enumerable: false,
-            writable: false,
-            value: starter,
-          });
-        },
-      );
+    async onCreate(_: BServiceClass, instance: BServiceInstance<never>) {
+      const starters = startMap.get(instance);
+      if (!starters) return;
+      startMap.delete(instance);
+      starters.forEach((starter) => starter());
     },
 
     async onDestroy(_: BServiceClass, instance: BServiceInstance<never>) {
@@ -79,6 +86,13 @@ function TimerPlugin(): BPlugin {
         timers.forEach(clearTimeout);
         timers.splice(0, timers.length);
       }
+      timerMap.delete(instance);
+      startMap.delete(instance);
+    },
+    async onContainerDispose() {
+      timerMap.forEach((timers) => timers.forEach(clearTimeout));
+      timerMap.clear();
+      startMap.clear();
     },
   };
 }
@@ -0,0 +1,54 @@
+import { MakeArrayRegistry } from '../../registries';
+import type { BDescriptor } from '../../service';
+import { WrapperRegistry } from '../../wrappers';
+
+/**
+ * Options for configuring the spans of a traced method.
+ * - `name`: The name of the spans, `Identifier.propertyName` by default.
+ */
+export type BTraceOptions = {
+  /** Name of the spans */
+  name?: string;
+};
+
+/**
+ * A custom registry for trace configurations.
+ * Stores the traced methods of each service.
+ */
+export const TraceRegistry = MakeArrayRegistry<
+  BTraceOptions & {
+    propertyName: string;
+  }
+>();
+
+/**
+ * Decorator function to record a span for each call of a method.
+ * Calls of traced methods made by the method are recorded as child spans,
+ * and the wrappers it encloses annotate the span (e.g. `cache.hit` and `retry.attempts`),
+ * so `trace` is meant to be the outermost wrapper.
+ *
+ * @example
+ * ```tsx
+ * import { Service, func } from "beatlejs";
+ * import { cache } from "beatlejs/plugins/cache";
+ * import { retry } from "beatlejs/plugins/retry";
+ * import { trace } from "beatlejs/plugins/trace";
+ *
+ * const $Users = Service({ identifier: 'Users' }, {
+ *   fetchUsers: trace(cache(retry(func(fetchUsers)))),
+ * });
+ * ```
+ *
+ * @param next The original method descriptor.
+ * @param options The trace options (optional).
+ */
+export function trace<T extends (...args: any[]) => any>(
+  next: BDescriptor<T>,
+  options?: BTraceOptions,
+): BDescriptor<T> {
+  return function (target, key) {
+    TraceRegistry.register(target, { propertyName: key, name: options?.name });
+    WrapperRegistry.register(target, { propertyName: key, kind: 'trace' });
+    return next(target, key);
+  };
+}
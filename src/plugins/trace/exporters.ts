@@ -0,0 +1,150 @@
+import type { BUnsubscribe } from '../../eventBus';
+import type { BSpanAttributeValue } from '../../tracing';
+
+/**
+ * Status codes of a span, matching the OpenTelemetry ones.
+ */
+export const SpanStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+} as const;
+
+/**
+ * Result codes of an export, matching the OpenTelemetry ones.
+ */
+export const ExportResultCode = {
+  SUCCESS: 0,
+  FAILED: 1,
+} as const;
+
+/**
+ * A finished span, shaped after the OpenTelemetry `ReadableSpan`.
+ * Times are expressed in milliseconds.
+ */
+export type BSpan = {
+  name: string;
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  startTime: number;
+  endTime: number;
+  duration: number;
+  attributes: Record<string, BSpanAttributeValue>;
+  events: {
+    name: string;
+    time: number;
+    attributes?: Record<string, BSpanAttributeValue>;
+  }[];
+  status: {
+    code: (typeof SpanStatusCode)[keyof typeof SpanStatusCode];
+    message?: string;
+  };
+};
+
+/**
+ * The result of an export.
+ */
+export type BExportResult = {
+  code: (typeof ExportResultCode)[keyof typeof ExportResultCode];
+  error?: Error;
+};
+
+/**
+ * Receives the finished spans, compatible with the OpenTelemetry `SpanExporter` interface
+ * (an OpenTelemetry exporter can be passed to `registerSpanExporter` through an adapter mapping the span fields).
+ */
+export type BSpanExporter = {
+  /**
+   * Exports a list of finished spans.
+   *
+   * @param spans The finished spans.
+   * @param resultCallback Callback receiving the result of the export.
+   */
+  export(spans: BSpan[], resultCallback: (result: BExportResult) => void): void;
+  /**
+   * Stops the exporter, flushing the pending spans.
+   */
+  shutdown(): Promise<void>;
+  /**
+   * Exports the pending spans immediately.
+   */
+  forceFlush?(): Promise<void>;
+};
+
+const exporters = new Set<BSpanExporter>();
+
+/**
+ * Registers an exporter receiving every finished span.
+ *
+ * @param exporter The span exporter.
+ * @returns {BUnsubscribe} A function unregistering the exporter.
+ */
+export function registerSpanExporter(exporter: BSpanExporter): BUnsubscribe {
+  exporters.add(exporter);
+  return () => {
+    exporters.delete(exporter);
+  };
+}
+
+/**
+ * Hands a finished span to the registered exporters.
+ *
+ * @param span The finished span.
+ */
+export function exportSpan(span: BSpan) {
+  exporters.forEach((exporter) => {
+    try {
+      exporter.export([span], (result) => {
+        if (result.code === ExportResultCode.FAILED)
+          console.error(`${span.name}: Span export failed,`, result.error);
+      });
+    } catch (e) {
+      console.error(`${span.name}: Span export failed,`, e);
+    }
+  });
+}
+
+/**
+ * An exporter keeping the finished spans in memory, for tests.
+ *
+ * @example
+ * ```tsx
+ * const exporter = InMemorySpanExporter();
+ * registerSpanExporter(exporter);
+ * await users.fetchUsers();
+ * exporter.getFinishedSpans();
+ * ```
+ */
+export function InMemorySpanExporter() {
+  const spans: BSpan[] = [];
+  let stopped = false;
+  return {
+    export(items: BSpan[], resultCallback: (result: BExportResult) => void) {
+      if (stopped) {
+        resultCallback({
+          code: ExportResultCode.FAILED,
+          error: new Error('Exporter has been shut down'),
+        });
+        return;
+      }
+      spans.push(...items);
+      resultCallback({ code: ExportResultCode.SUCCESS });
+    },
+    async shutdown() {
+      stopped = true;
+      spans.length = 0;
+    },
+    async forceFlush() {},
+    /**
+     * Returns the finished spans, in the order they ended.
+     */
+    getFinishedSpans: () => spans.slice(),
+    /**
+     * Drops the finished spans.
+     */
+    reset() {
+      spans.length = 0;
+    },
+  } satisfies BSpanExporter & Record<string, unknown>;
+}
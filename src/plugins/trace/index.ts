@@ -0,0 +1,12 @@
+import './private/plugins';
+export type { BTraceOptions } from './decorators';
+export { trace, TraceRegistry } from './decorators';
+export {
+  ExportResultCode,
+  InMemorySpanExporter,
+  registerSpanExporter,
+  SpanStatusCode,
+} from './exporters';
+export type { BExportResult, BSpan, BSpanExporter } from './exporters';
+export { getActiveSpan } from '../../tracing';
+export type { BActiveSpan, BSpanAttributeValue } from '../../tracing';
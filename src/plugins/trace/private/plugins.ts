@@ -0,0 +1,130 @@
+import { IdentifierSymbol } from '../../../container';
+import type { BPlugin } from '../../../plugin';
+import { extendPlugins } from '../../../registries';
+import type { BServiceClass, BServiceInstance } from '../../../service';
+import {
+  getActiveSpan,
+  runInSpan,
+  type BActiveSpan,
+  type BSpanAttributeValue,
+} from '../../../tracing';
+import type { BWrappedFunction } from '../../../wrappers';
+import { TraceRegistry } from '../decorators';
+import { exportSpan, SpanStatusCode, type BSpan } from '../exporters';
+
+type BRecordingSpan = BActiveSpan & {
+  end(error?: unknown): void;
+};
+
+// Spans recorded for the active spans, so nested spans can refer to their parent
+const spanMap = new WeakMap<BActiveSpan, BSpan>();
+
+function randomId(bytes: number) {
+  let output = '';
+  for (let i = 0; i < bytes; i++)
+    output += Math.floor(Math.random() * 256)
+      .toString(16)
+      .padStart(2, '0');
+  return output;
+}
+
+// Starts a span nested under the active one, if any
+function startSpan(
+  name: string,
+  attributes: Record<string, BSpanAttributeValue>,
+): BRecordingSpan {
+  const parent = getActiveSpan();
+  const parentSpan = parent && spanMap.get(parent);
+  const start = performance.now();
+  const span: BSpan = {
+    name,
+    traceId: parentSpan?.traceId ?? randomId(16),
+    spanId: randomId(8),
+    parentSpanId: parentSpan?.spanId,
+    startTime: Date.now(),
+    endTime: 0,
+    duration: 0,
+    attributes: { ...attributes },
+    events: [],
+    status: { code: SpanStatusCode.UNSET },
+  };
+  let ended = false;
+  const recording: BRecordingSpan = {
+    setAttribute(key, value) {
+      span.attributes[key] = value;
+    },
+    addEvent(eventName, eventAttributes) {
+      span.events.push({
+        name: eventName,
+        time: Date.now(),
+        attributes: eventAttributes,
+      });
+    },
+    end(error) {
+      if (ended) return;
+      ended = true;
+      span.duration = performance.now() - start;
+      span.endTime = span.startTime + span.duration;
+      span.status =
+        error === undefined
+          ? { code: SpanStatusCode.OK }
+          : {
+              code: SpanStatusCode.ERROR,
+              message: error instanceof Error ? error.message : String(error),
+            };
+      exportSpan(span);
+    },
+  };
+  spanMap.set(recording, span);
+  return recording;
+}
+
+function TracePlugin(): BPlugin {
+  return {
+    onWrap(
+      target: BServiceClass,
+      instance: unknown,
+      propertyName: string,
+      kind: string,
+      next: BWrappedFunction,
+    ) {
+      if (kind !== 'trace') return;
+      const definition = TraceRegistry.get(target)?.find(
+        (item) => item.propertyName === propertyName,
+      );
+      const identifier = (instance as BServiceInstance<never>)[
+        IdentifierSymbol
+      ];
+      const name = definition?.name ?? `${identifier}.${propertyName}`;
+
+      return function traceFunction(...args: unknown[]) {
+        const span = startSpan(name, {
+          'service.identifier': identifier,
+          'code.function': propertyName,
+        });
+        let result: unknown;
+        try {
+          result = runInSpan(span, () => next.apply(instance, args));
+        } catch (e) {
+          span.end(e ?? 'error');
+          throw e;
+        }
+        if (result instanceof Promise)
+          return result.then(
+            (value) => {
+              span.end();
+              return value;
+            },
+            (e) => {
+              span.end(e ?? 'error');
+              throw e;
+            },
+          );
+        span.end();
+        return result;
+      };
+    },
+  };
+}
+
+extendPlugins(TracePlugin);
@@ -0,0 +1,44 @@
+import type { BDescriptor } from '../../service';
+import { WrapperRegistry } from '../../wrappers';
+
+/**
+ * Decorator function to run a method as a transaction.
+ * The notifications raised by the method are flushed at once when it completes, see `BContainer.batch`.
+ * When the method throws, or its promise rejects, the values it assigned are rolled back.
+ *
+ * Asynchronous methods are only supported where `AsyncLocalStorage` is available (e.g. Node, Deno, Bun),
+ * since the transaction has to follow the method through `await`. Elsewhere (e.g. browsers), a method
+ * returning a promise has its synchronous changes rolled back and throws an `AsyncTransactionError`
+ * (the method itself keeps running past its first `await`, so such methods should not be transactions there).
+ *
+ * @example
+ * ```tsx
+ * import { Service, func, val } from "beatlejs";
+ * import { signal } from "beatlejs/react";
+ * import { transaction } from "beatlejs/plugins/transaction";
+ *
+ * const $Form = Service({ identifier: 'Form' }, {
+ *   name: signal(val('')),
+ *   email: signal(val('')),
+ *   fill: transaction(func(fill)),
+ * });
+ *
+ * function fill(this: typeof $Form, name: string, email: string) {
+ *   this.name = name;
+ *   this.email = email;
+ * }
+ * ```
+ *
+ * @param next The original method descriptor.
+ */
+export function transaction<T extends (...args: any[]) => any>(
+  next: BDescriptor<T>,
+): BDescriptor<T> {
+  return function (target, key) {
+    WrapperRegistry.register(target, {
+      propertyName: key,
+      kind: 'transaction',
+    });
+    return next(target, key);
+  };
+}
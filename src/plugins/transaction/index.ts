@@ -0,0 +1,2 @@
+import './private/plugins';
+export { transaction } from './decorators';
@@ -0,0 +1,36 @@
+import { hasAsyncContext } from '../../../environment';
+import { AsyncTransactionError } from '../../../errors/AsyncTransactionError';
+import type { BPlugin } from '../../../plugin';
+import { extendPlugins } from '../../../registries';
+import type { BServiceClass, BServiceInstance } from '../../../service';
+import type { BWrappedFunction } from '../../../wrappers';
+
+function TransactionPlugin(): BPlugin {
+  return {
+    onWrap(
+      target: BServiceClass,
+      instance: unknown,
+      propertyName: string,
+      kind: string,
+      next: BWrappedFunction,
+    ) {
+      if (kind !== 'transaction') return;
+      const service = instance as BServiceInstance<unknown>;
+      return function transactionFunction(...args: unknown[]) {
+        return service.container.batch(() => {
+          const result = next.apply(instance, args);
+          // Without AsyncLocalStorage the batch ends at the first await, so only its synchronous part could be rolled back
+          if (result instanceof Promise && !hasAsyncContext()) {
+            result.catch(() => undefined);
+            throw new AsyncTransactionError(
+              `${target.identifier}.${propertyName}`,
+            );
+          }
+          return result;
+        });
+      };
+    },
+  };
+}
+
+extendPlugins(TransactionPlugin);
@@ -1,15 +1,118 @@
 import type { BPluginClass } from './plugin';
 import type { BServiceClass } from './service';
 
-export const ServiceRegistry = new Set<BServiceClass>();
-export const ServiceIdentifiers = new Map<string, BServiceClass>();
-const PluginRegistry = new Set<BPluginClass>();
-export const PluginArray: BPluginClass[] = [];
+/**
+ * Holds the registration state of services and plugins.
+ */
+export type BRegistry = {
+  /**
+   * Registered services in order of registration.
+   */
+  services: Set<BServiceClass>;
+  /**
+   * Registered services by their identifier.
+   */
+  identifiers: Map<string, BServiceClass>;
+  /**
+   * Plugins registered in this registry.
+   */
+  plugins: BPluginClass[];
+  /**
+   * Whether registering an existing identifier replaces the service blueprint in place.
+   */
+  hot: boolean;
+  /**
+   * Registers a plugin for all containers bound to this registry.
+   *
+   * @param plugin plugin class to be registered
+   */
+  extendPlugins(plugin: BPluginClass): void;
+  /**
+   * Get the plugins of this registry, including the global ones when they are inherited.
+   */
+  getPlugins(): BPluginClass[];
+};
+
+/**
+ * Defines the options for a registry.
+ */
+export type BRegistryOptions = {
+  /**
+   * Include plugins registered through the global `extendPlugins`.
+   * @default true
+   */
+  inheritPlugins?: boolean;
+  /**
+   * Replace service blueprints in place when a service is defined twice (e.g. hot module replacement)
+   * instead of reporting a duplicate identifier.
+   * @default false
+   */
+  hot?: boolean;
+};
+
+/**
+ * Creates an isolated registry of services and plugins.
+ *
+ * @description
+ * Services defined with a registry are only known to containers bound to the same registry,
+ * so containers living in the same process (server-side requests, parallel tests, micro-frontends)
+ * do not share registration state.
+ *
+ * @example
+ * ```tsx
+ * import { Container, Service, createRegistry, val } from "beatlejs";
+ *
+ * const registry = createRegistry({ hot: import.meta.hot !== undefined });
+ * const $ServiceA = Service({ identifier: 'ServiceA', registry }, {
+ *   userName: val('Beatle'),
+ * });
+ * const container = Container({ registry });
+ * ```
+ */
+export function createRegistry(options?: BRegistryOptions): BRegistry {
+  const inheritPlugins = options?.inheritPlugins ?? true;
+  const pluginSet = new Set<BPluginClass>();
+  const registry: BRegistry = {
+    services: new Set(),
+    identifiers: new Map(),
+    plugins: [],
+    hot: options?.hot ?? false,
+    extendPlugins(plugin: BPluginClass) {
+      if (pluginSet.has(plugin)) return;
+      pluginSet.add(plugin);
+      registry.plugins.push(plugin);
+    },
+    getPlugins() {
+      if (!inheritPlugins || registry === GlobalRegistry)
+        return registry.plugins;
+      return [...GlobalRegistry.plugins, ...registry.plugins];
+    },
+  };
+  return registry;
+}
+
+/**
+ * The registry used by services and containers that are not bound to a registry.
+ */
+export const GlobalRegistry = createRegistry();
+export const ServiceRegistry = GlobalRegistry.services;
+export const ServiceIdentifiers = GlobalRegistry.identifiers;
+export const PluginArray = GlobalRegistry.plugins;
 
 export function extendPlugins(plugin: BPluginClass) {
-  if (PluginRegistry.has(plugin)) return;
-  PluginRegistry.add(plugin);
-  PluginArray.push(plugin);
+  GlobalRegistry.extendPlugins(plugin);
+}
+
+// Metadata registries, so their entries can be dropped when a blueprint is replaced
+const MetadataRegistries: { delete(target: BServiceClass): void }[] = [];
+
+/**
+ * Removes the metadata of a service from every custom registry.
+ *
+ * @param target The service class.
+ */
+export function deleteServiceMetadata(target: BServiceClass) {
+  MetadataRegistries.forEach((registry) => registry.delete(target));
 }
 
 /**
@@ -50,7 +153,7 @@ export function extendPlugins(plugin: BPluginClass) {
  */
 export function MakeArrayRegistry<T>() {
   const map = new Map<BServiceClass, T[]>();
-  return {
+  const registry = {
     register(target: BServiceClass, prop: T) {
       let service = map.get(target);
       if (!service) {
@@ -70,12 +173,17 @@ export function MakeArrayRegistry<T>() {
     forEach(callback: (value: T[], key: BServiceClass) => void) {
       map.forEach(callback);
     },
+    delete(target: BServiceClass) {
+      map.delete(target);
+    },
   };
+  MetadataRegistries.push(registry);
+  return registry;
 }
 
 export function MakeSetRegistry<T>() {
   const map = new Map<BServiceClass, Set<T>>();
-  return {
+  const registry = {
     register(target: BServiceClass, prop: T) {
       let service = map.get(target);
       if (!service) {
@@ -87,6 +195,18 @@ export function MakeSetRegistry<T>() {
     get(target: BServiceClass) {
       return map.get(target);
     },
+    /**
+     * Get the entries of a service, including the entries of the services it extends.
+     */
+    collect(target: BServiceClass) {
+      const output = new Set<T>();
+      let current: BServiceClass | undefined = target;
+      while (current) {
+        map.get(current)?.forEach((item) => output.add(item));
+        current = current.extends as BServiceClass | undefined;
+      }
+      return output;
+    },
     count(target: BServiceClass) {
       const svc = map.get(target);
       if (!svc) return 0;
@@ -95,5 +215,10 @@ export function MakeSetRegistry<T>() {
     forEach(callback: (value: Set<T>, key: BServiceClass) => void) {
       map.forEach(callback);
     },
+    delete(target: BServiceClass) {
+      map.delete(target);
+    },
   };
+  MetadataRegistries.push(registry);
+  return registry;
 }
@@ -1,31 +1,14 @@
-export function blobToData(b: Blob): Promise<string> {
-  return new Promise((acc, rej) => {
-    const f = new FileReader();
-    f.onload = function (e) {
-      if (!e.target?.result || typeof e.target.result !== "string")
-        return rej();
-      acc(e.target.result);
-    };
-    f.onerror = function () {
-      rej();
-    };
-    f.onabort = function () {
-      rej();
-    };
-    f.readAsDataURL(b);
-  });
+import { decodeBase64, encodeBase64 } from "./environment";
+
+export async function blobToData(b: Blob): Promise<string> {
+  const bytes = new Uint8Array(await b.arrayBuffer());
+  return `data:${b.type || "application/octet-stream"};base64,${encodeBase64(bytes)}`;
 }
 
 export function dataToBlob(data: string): Blob {
-  const byteString = atob(data.split(",")[1]);
+  const bytes = decodeBase64(data.split(",")[1]);
   const mimeString = data.split(",")[0].split(":")[1].split(";")[0];
-  const ab = new ArrayBuffer(byteString.length);
-  const ia = new Uint8Array(ab);
-  for (let i = 0; i < byteString.length; i++) {
-    ia[i] = byteString.charCodeAt(i);
-  }
-  const blob = new Blob([ab], { type: mimeString });
-  return blob;
+  return new Blob([bytes], { type: mimeString });
 }
 
 export async function serialize(ref: any): Promise<any> {
@@ -70,7 +53,7 @@ export async function serialize(ref: any): Promise<any> {
     });
   }
 
-  if (ref instanceof Blob) {
+  if (typeof Blob !== "undefined" && ref instanceof Blob) {
     return blobToData(ref).then((data) => ({
       __type: "Blob",
       data,
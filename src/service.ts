@@ -1,6 +1,10 @@
 import type { BContainer, IdentifierSymbol } from './container';
 import type { BListener, BUnsubscribe } from './eventBus';
-import { ServiceIdentifiers, ServiceRegistry } from './registries';
+import {
+  deleteServiceMetadata,
+  GlobalRegistry,
+  type BRegistry,
+} from './registries';
 
 /**
  * Defines the options for a service.
@@ -61,9 +65,41 @@ export type BServiceOptions<T> = {
    * @default 1
    */
   version?: number;
+  /**
+   * Migrations of the persisted data, keyed by the version they migrate to.
+   * Data saved by an older version is passed through each migration up to the current version.
+   *
+   * @example
+   * ```tsx
+   * Service(
+   *   {
+   *     identifier: "Settings",
+   *     version: 3,
+   *     migrations: {
+   *       2: (data) => ({ ...data, theme: data.dark ? "dark" : "light" }),
+   *       3: ({ fontSize, ...data }) => ({ ...data, scale: Number(fontSize) / 16 }),
+   *     },
+   *   },
+   *   { ... }
+   * );
+   * ```
+   */
+  migrations?: Record<number, BMigration>;
   extends?: T
+  /**
+   * The registry the service is registered in.
+   * @default GlobalRegistry
+   */
+  registry?: BRegistry;
 };
 
+/**
+ * Migrates the persisted data of a service from the previous version.
+ */
+export type BMigration = (
+  data: Record<string, unknown>,
+) => Record<string, unknown> | Promise<Record<string, unknown>>;
+
 /**
  * Defines the options for a descriptor.
  *
@@ -184,8 +220,13 @@ export function Service<T extends Record<string, BDescriptor<unknown>>, E extend
   definition: T,
 ): BServiceInstance<T, E> {
   const version = options.version ?? 1;
+  const registry = options.registry ?? GlobalRegistry;
   const identifier = options.identifier?.replace(/[^a-zA-Z0-9-.]/, '');
-  const existing = ServiceIdentifiers.get(identifier);
+  const existing = registry.identifiers.get(identifier);
+  if (existing && registry.hot) {
+    replaceBlueprint(existing, options, definition);
+    return existing as unknown as BServiceInstance<T, E>;
+  }
   if (existing) {
     console.error(
       `${identifier}: Duplicate identifier found, Service identifiers must be unique or you are seeing this cause the service blueprint has changed during runtime (hard reload required!)`,
@@ -198,12 +239,28 @@ export function Service<T extends Record<string, BDescriptor<unknown>>, E extend
     identifier,
     order: order,
     version: version,
+    migrations: options.migrations,
     blueprint: {},
     index: counter++,
     extends: options.extends,
+    registry,
   };
+  defineBlueprint(service, definition);
+  registry.identifiers.set(identifier, service);
+  registry.services.add(service);
+  return service as unknown as BServiceInstance<T, E>;
+}
+
+function defineBlueprint(
+  service: BServiceClass<unknown>,
+  definition: Record<string, BDescriptor<unknown>>,
+) {
   Object.entries(definition).forEach(([key, field]) => {
     const value = field(service, key);
+    if (Object.prototype.hasOwnProperty.call(service.blueprint, key)) {
+      service.blueprint[key] = value;
+      return;
+    }
     Object.defineProperty(service.blueprint, key, {
       writable: true,
       enumerable: true,
@@ -211,9 +268,42 @@ export function Service<T extends Record<string, BDescriptor<unknown>>, E extend
       value: value,
     });
   });
-  ServiceIdentifiers.set(identifier, service);
-  ServiceRegistry.add(service);
-  return service as unknown as BServiceInstance<T, E>;
+}
+
+/**
+ * Replaces the blueprint of a registered service in place.
+ * Existing instances inherit from the blueprint, so they pick up the new functions and defaults.
+ */
+function replaceBlueprint(
+  service: BServiceClass<unknown>,
+  options: BServiceOptions<unknown>,
+  definition: Record<string, BDescriptor<unknown>>,
+) {
+  deleteServiceMetadata(service);
+  // Blueprint properties can not be removed, clear the ones missing from the new definition
+  Object.keys(service.blueprint).forEach((key) => {
+    if (!Object.prototype.hasOwnProperty.call(definition, key))
+      service.blueprint[key] = undefined;
+  });
+  service.order = options.order ?? 0;
+  service.version = options.version ?? 1;
+  service.migrations = options.migrations;
+  service.extends = options.extends;
+  defineBlueprint(service, definition);
+}
+
+/**
+ * Checks whether a value is a service class created by `Service`.
+ *
+ * @param value The value to check.
+ */
+export function isServiceClass(value: unknown): value is BServiceClass {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'identifier' in value &&
+    'blueprint' in value
+  );
 }
 
 let counter = 0;
\ No newline at end of file
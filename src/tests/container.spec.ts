@@ -0,0 +1,489 @@
+import {
+  Container,
+  ContainerDisposedError,
+  Service,
+  createRegistry,
+  dehydrate,
+  func,
+  hydrate,
+  inject,
+  val,
+  watch,
+} from '../index';
+import { BeatleProvider } from '../integrations/react';
+import { tagged } from '../plugins/tagged';
+
+const $Counter = Service(
+  { identifier: 'Counter' },
+  {
+    count: val(0),
+    increment: func(function (this: { count: number }) {
+      this.count += 1;
+    }),
+  },
+);
+
+const $Consumer = Service(
+  { identifier: 'Consumer' },
+  {
+    counter: inject($Counter),
+    scoped: inject(() => $Counter, 'scoped'),
+    title: val('consumer'),
+    bump: func(bump),
+  },
+);
+
+function bump(this: typeof $Consumer) {
+  this.counter.increment();
+}
+
+describe('inject', () => {
+  it('resolves injected services through the container', () => {
+    const container = Container();
+    const consumer = container.getByClass($Consumer);
+    consumer.bump();
+    expect(consumer.counter).toBe(container.getByClass($Counter));
+    expect(consumer.counter.count).toBe(1);
+    expect(consumer.scoped).toBe(container.getByClass($Counter, 'scoped'));
+    expect(consumer.scoped).not.toBe(consumer.counter);
+  });
+
+  it('keeps injected services out of enumeration and reset', () => {
+    const container = Container();
+    const consumer = container.getByClass($Consumer);
+    consumer.title = 'changed';
+    expect(Object.keys(consumer)).not.toContain('counter');
+    consumer.reset();
+    expect(consumer.title).toBe('consumer');
+    expect(consumer.counter).toBe(container.getByClass($Counter));
+  });
+});
+
+describe('child containers', () => {
+  it('creates provided services locally and falls back to the parent', async () => {
+    const container = Container();
+    const child = container.createChild({ provide: [$Counter] });
+    expect(child.getParent()).toBe(container);
+    expect(child.getByClass($Counter)).not.toBe(container.getByClass($Counter));
+    expect(child.getByClass($Consumer)).toBe(container.getByClass($Consumer));
+    expect(await child.resolveByClass($Consumer)).toBe(
+      container.getByClass($Consumer),
+    );
+    expect(child.getByName('Consumer')).toBe(container.getByClass($Consumer));
+  });
+
+  it('resolves injections of local services through the child', () => {
+    const container = Container();
+    const child = container.createChild({ provide: [$Counter, $Consumer] });
+    const consumer = child.getByClass($Consumer);
+    expect(consumer.counter).toBe(child.getByClass($Counter));
+  });
+
+  it('only destroys services created by the child', async () => {
+    const container = Container();
+    const child = container.createChild({ provide: [$Counter] });
+    const local = child.getByClass($Counter);
+    child.getByClass($Consumer);
+    await local.destroy();
+    expect(Array.from(child.getServices())).toHaveLength(0);
+    expect(container.getByClass($Consumer)).toBeDefined();
+    expect(Array.from(container.getServices()).length).toBeGreaterThan(0);
+  });
+});
+
+describe('lazy containers', () => {
+  it('creates services on first use', async () => {
+    const container = Container({ lazy: true });
+    expect(Array.from(container.getServices())).toHaveLength(0);
+    container.getByName('Counter');
+    await container.resolveByClass($Consumer);
+    // The scoped counter is an injection of the consumer
+    expect(
+      Array.from(container.getServices()).map((item) => item.class.identifier),
+    ).toEqual(['Counter', 'Counter', 'Consumer']);
+  });
+
+  it('creates eager services and their dependencies upfront', () => {
+    const container = Container({ lazy: true, eager: [$Consumer] });
+    expect(
+      Array.from(container.getServices()).map((item) => item.class.identifier),
+    ).toEqual(['Counter', 'Consumer']);
+  });
+});
+
+describe('overrides', () => {
+  const $FakeCounter = Service(
+    { identifier: 'FakeCounter' },
+    {
+      count: val(100),
+      increment: func(function (this: { count: number }) {
+        this.count -= 1;
+      }),
+    },
+  );
+
+  it('replaces a service with another service class', () => {
+    const created: string[] = [];
+    const container = Container({
+      lazy: true,
+      overrides: [[$Counter, $FakeCounter]],
+    });
+    container.registerPlugin(() => ({
+      async onCreate(target) {
+        created.push(target.identifier);
+      },
+    }));
+    const consumer = container.getByClass($Consumer);
+    consumer.bump();
+    expect(consumer.counter.count).toBe(99);
+    expect(container.getByName('Counter')).toBe(consumer.counter);
+    expect(created).toContain('FakeCounter');
+  });
+
+  it('applies partial implementations and replaces created instances', () => {
+    const container = Container();
+    const original = container.getByClass($Counter);
+    const increment = jest.fn();
+    container.override($Counter, { count: 5, increment });
+    const counter = container.getByClass($Counter);
+    expect(counter).not.toBe(original);
+    counter.increment();
+    expect(increment).toHaveBeenCalled();
+    expect(counter.count).toBe(5);
+    expect(Object.keys(counter)).not.toContain('increment');
+  });
+
+  it('keeps overrides of a child local to the child', () => {
+    const container = Container();
+    const child = container.createChild({
+      overrides: [[$Counter, { count: 7 }]],
+    });
+    expect(child.getByClass($Counter).count).toBe(7);
+    expect(container.getByClass($Counter).count).toBe(0);
+    // @ts-expect-error the implementation is typed after the service
+    container.createChild({ overrides: [[$Counter, { count: 'seven' }]] });
+  });
+
+  it('only replaces the instances of the overridden service', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const registry = createRegistry();
+    const $Account = Service(
+      { identifier: 'Account', registry },
+      { name: val('a') },
+    );
+    const $AccountProfile = Service(
+      { identifier: 'Account_Profile', registry },
+      { bio: val('') },
+    );
+    const container = Container({ registry, lazy: true });
+    container.registerPlugin(() => ({
+      async onDestroy(target) {
+        if (target.identifier === 'Account') throw new Error('destroy failed');
+      },
+    }));
+    const profile = container.getByClass($AccountProfile);
+    container.getByClass($Account, 'modal');
+    container.override($Account, { name: 'b' });
+    await new Promise((acc) => setTimeout(acc, 0));
+    expect(container.getByClass($AccountProfile)).toBe(profile);
+    expect(container.getByClass($Account, 'modal').name).toBe('b');
+    expect(console.error).toHaveBeenCalledWith(
+      'Account_modal: Failed to destroy the overridden service,',
+      expect.objectContaining({ message: 'destroy failed' }),
+    );
+    jest.restoreAllMocks();
+  });
+});
+
+describe('scopes', () => {
+  it('lists and disposes scoped instances', async () => {
+    const container = Container({ lazy: true });
+    const modal = container.scope('modal');
+    const counter = modal.getByClass($Counter);
+    container.getByClass($Counter, 'drawer');
+    expect(counter).toBe(container.getByClass($Counter, 'modal'));
+    expect(container.getScopes($Counter).sort()).toEqual(['drawer', 'modal']);
+    expect(modal.getServices().map((item) => item.instance)).toEqual([counter]);
+    await modal.dispose();
+    expect(container.getScopes()).toEqual(['drawer']);
+    expect(modal.getByClass($Counter)).not.toBe(counter);
+  });
+
+  it('destroys retained instances after their last release', async () => {
+    const container = Container({ lazy: true });
+    const scope = container.scope('page');
+    const releaseFirst = scope.retain($Counter);
+    const releaseSecond = scope.retain($Counter);
+    const counter = scope.getByClass($Counter);
+    releaseFirst();
+    await Promise.resolve();
+    expect(scope.getByClass($Counter)).toBe(counter);
+    releaseSecond();
+    // Retaining again within the same tick keeps the instance alive
+    const releaseThird = scope.retain($Counter);
+    await Promise.resolve();
+    expect(scope.getByClass($Counter)).toBe(counter);
+    releaseThird();
+    await Promise.resolve();
+    expect(container.getScopes()).toEqual([]);
+  });
+
+  it('reports the released instances that fail to be destroyed', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const container = Container({ lazy: true });
+    container.registerPlugin(() => ({
+      async onDestroy() {
+        throw new Error('destroy failed');
+      },
+    }));
+    container.scope('page').retain($Counter)();
+    await new Promise((acc) => setTimeout(acc, 0));
+    expect(console.error).toHaveBeenCalledWith(
+      'Counter_page: Failed to destroy the released service,',
+      expect.objectContaining({ message: 'destroy failed' }),
+    );
+    jest.restoreAllMocks();
+  });
+});
+
+describe('plugin hooks', () => {
+  it('routes invocations, assignments and resets through plugins', async () => {
+    const calls: string[] = [];
+    const container = Container({ lazy: true });
+    container.registerPlugin(() => ({
+      onBeforeInvoke({ propertyName, args }) {
+        calls.push(`before ${propertyName}(${args.join()})`);
+      },
+      onAfterInvoke({ propertyName }, result) {
+        calls.push(`after ${propertyName} = ${result}`);
+      },
+      onInvokeError({ propertyName }, error) {
+        calls.push(`error ${propertyName}: ${(error as Error).message}`);
+      },
+      onPropertyChange(_, __, propertyName, value, previousValue) {
+        calls.push(`change ${propertyName}: ${previousValue} -> ${value}`);
+      },
+      onReset(target) {
+        calls.push(`reset ${target.identifier}`);
+      },
+    }));
+    const $Hooked = Service(
+      { identifier: 'Hooked' },
+      {
+        count: val(0),
+        add: func(function (this: { count: number }, amount: number) {
+          this.count += amount;
+          return this.count;
+        }),
+        fail: func(async () => {
+          throw new Error('failed');
+        }),
+      },
+    );
+    const hooked = container.getByClass($Hooked);
+    hooked.add(2);
+    await expect(hooked.fail()).rejects.toThrow('failed');
+    hooked.reset();
+    expect(calls).toEqual([
+      'before add(2)',
+      'change count: 0 -> 2',
+      'after add = 2',
+      'before fail()',
+      'error fail: failed',
+      'change count: 2 -> 0',
+      'reset Hooked',
+    ]);
+  });
+});
+
+describe('watchers', () => {
+  const changes: unknown[] = [];
+
+  const $Watched = Service(
+    { identifier: 'Watched' },
+    {
+      count: val(0),
+      items: val<string[]>([]),
+      stop: watch(['count', 'items'], onChange),
+    },
+  );
+
+  function onChange(
+    this: typeof $Watched,
+    value: unknown,
+    previousValue: unknown,
+    propertyName: string,
+  ) {
+    changes.push([this.count, propertyName, previousValue, value]);
+  }
+
+  beforeEach(() => changes.splice(0, changes.length));
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('calls declared watchers until they are stopped', () => {
+    const container = Container({ lazy: true });
+    const watched = container.getByClass($Watched);
+    watched.count = 1;
+    watched.count = 1;
+    watched.items = ['a'];
+    watched.stop();
+    watched.count = 2;
+    expect(changes).toEqual([
+      [1, 'count', 0, 1],
+      [1, 'items', [], ['a']],
+    ]);
+  });
+
+  it('watches properties through the container', async () => {
+    jest.useFakeTimers();
+    const container = Container({ lazy: true });
+    const handler = jest.fn();
+    const debounced = jest.fn();
+    const unsubscribe = container.watch($Watched, 'count', handler, {
+      immediate: true,
+    });
+    container
+      .createChild()
+      .watch($Watched, 'count', debounced, { debounceMs: 100 });
+    const watched = container.getByClass($Watched);
+    watched.count = 1;
+    watched.count = 2;
+    unsubscribe();
+    watched.count = 3;
+    jest.advanceTimersByTime(100);
+    expect(handler.mock.calls).toEqual([
+      [0, undefined, 'count'],
+      [1, 0, 'count'],
+      [2, 1, 'count'],
+    ]);
+    expect(debounced.mock.calls).toEqual([[3, 0, 'count']]);
+    container.watch($Watched, 'count', handler, { debounceMs: 100 });
+    watched.count = 4;
+    await watched.destroy();
+    jest.advanceTimersByTime(100);
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  it('calls watchers once a batch is committed', () => {
+    const container = Container({ lazy: true });
+    const watched = container.getByClass($Watched);
+    container.batch(() => {
+      watched.count = 1;
+      watched.count = 2;
+      expect(() =>
+        container.batch(() => {
+          watched.items = ['dropped'];
+          throw new Error('failed');
+        }),
+      ).toThrow('failed');
+      expect(changes).toEqual([]);
+    });
+    expect(changes).toEqual([[2, 'count', 0, 2]]);
+  });
+});
+
+describe('dispose', () => {
+  it('tears down services, plugins and listeners', async () => {
+    const calls: string[] = [];
+    const container = Container({ lazy: true });
+    container.registerPlugin(() => ({
+      async onDestroy(target) {
+        calls.push(`destroy ${target.identifier}`);
+      },
+      async onContainerDispose() {
+        calls.push('dispose');
+      },
+    }));
+    const child = container.createChild({ provide: [$Counter] });
+    child.getByClass($Counter);
+    await container.resolveByClass($Consumer);
+    const listener = jest.fn();
+    container.subscribe(listener);
+    const unsubscribe = container.subscribe(listener);
+    unsubscribe();
+    await container.dispatch('message');
+    expect(listener).toHaveBeenCalledTimes(1);
+    await container.dispose();
+    // Dependencies are created first, so they are destroyed last
+    expect(calls).toEqual([
+      'destroy Consumer',
+      'destroy Counter',
+      'destroy Counter',
+      'dispose',
+    ]);
+    expect(child.isDisposed()).toBe(true);
+    expect(container.isDisposed()).toBe(true);
+    expect(Array.from(container.getServices())).toHaveLength(0);
+    expect(() => container.getByClass($Counter)).toThrow(
+      ContainerDisposedError,
+    );
+    expect(() => container.subscribe(listener)).toThrow(
+      'Cannot call subscribe on a disposed container',
+    );
+  });
+});
+
+const $Settings = Service(
+  { identifier: 'Settings' },
+  {
+    theme: tagged('public', val('light')),
+    updatedAt: tagged('public', val(new Date(0))),
+    tags: val(new Set<string>()),
+    secret: val(''),
+  },
+);
+
+describe('hydration', () => {
+  it('restores the dehydrated state without notifying', async () => {
+    const server = Container();
+    const settings = server.getByClass($Settings);
+    settings.theme = 'dark';
+    settings.updatedAt = new Date(1000);
+    settings.tags = new Set(['a']);
+    settings.secret = 'token';
+    server.getByClass($Counter, 'scoped').count = 4;
+    const state = JSON.parse(JSON.stringify(await dehydrate(server)));
+
+    const client = Container({ lazy: true });
+    const watched: unknown[] = [];
+    client.watch($Settings, 'theme', (value) => watched.push(value));
+    hydrate(client, state);
+    const restored = client.getByClass($Settings);
+    expect(restored.theme).toBe('dark');
+    expect(restored.updatedAt).toEqual(new Date(1000));
+    expect(restored.tags).toEqual(new Set(['a']));
+    expect(client.getByClass($Counter, 'scoped').count).toBe(0);
+    expect(watched).toEqual([]);
+  });
+
+  it('only includes tagged properties when tags are given', async () => {
+    const server = Container();
+    server.getByClass($Settings).secret = 'token';
+    const state = await dehydrate(server, { tags: ['public'] });
+    expect(state).toEqual([
+      {
+        key: 'Settings',
+        version: 1,
+        data: {
+          theme: 'light',
+          updatedAt: { __type: 'Date', data: new Date(0).toISOString() },
+        },
+      },
+    ]);
+  });
+
+  it('hydrates the container of a provider once', () => {
+    const container = Container();
+    const state = JSON.stringify([
+      { key: 'Counter', version: 1, data: { count: 3 } },
+    ]);
+    BeatleProvider({ container, initialState: JSON.parse(state) });
+    expect(container.getByClass($Counter).count).toBe(3);
+    container.getByClass($Counter).count = 5;
+    BeatleProvider({ container, initialState: JSON.parse(state) });
+    expect(container.getByClass($Counter).count).toBe(5);
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  Container,
+  createRegistry,
+  DependencyCycleError,
+  Service,
+  inject,
+  val,
+} from '../index';
+
+describe('dependency graph', () => {
+  it('initializes dependencies before their dependents', async () => {
+    const created: string[] = [];
+    const container = Container();
+    container.registerPlugin(() => ({
+      async onCreate(target) {
+        if (target.identifier.startsWith('Graph'))
+          created.push(target.identifier);
+      },
+    }));
+    const $Leaf = Service({ identifier: 'GraphLeaf' }, { value: val(1) });
+    const $Middle = Service(
+      { identifier: 'GraphMiddle' },
+      { leaf: inject($Leaf) },
+    );
+    const $Root = Service(
+      { identifier: 'GraphRoot' },
+      { middle: inject($Middle), leaf: inject($Leaf) },
+    );
+    await container.resolveByClass($Root);
+    expect(created).toEqual(['GraphLeaf', 'GraphMiddle', 'GraphRoot']);
+    expect(container.getDependencyGraph().get($Root as never)).toEqual(
+      new Set([$Middle, $Leaf]),
+    );
+  });
+
+  it('resolves services injected before their declaration', () => {
+    const $Early: unknown = Service(
+      { identifier: 'GraphEarly' },
+      { late: inject(() => $Late) },
+    );
+    const $Late = Service({ identifier: 'GraphLate' }, { value: val(2) });
+    const container = Container();
+    const early = container.getByClass($Early) as { late: typeof $Late };
+    expect(early.late.value).toBe(2);
+    expect(container.getDependencyGraph().get($Early as never)).toEqual(
+      new Set([$Late]),
+    );
+  });
+
+  it('reports circular dependencies once they are resolved', async () => {
+    const registry = createRegistry();
+    const $First: unknown = Service(
+      { identifier: 'CycleFirst', registry },
+      { next: inject(() => $Second) },
+    );
+    const $Second: unknown = Service(
+      { identifier: 'CycleSecond', registry },
+      { next: inject(() => $First) },
+    );
+    const $Dependent = Service(
+      { identifier: 'CycleDependent', registry },
+      { first: inject($First) },
+    );
+    const $Unrelated = Service(
+      { identifier: 'CycleUnrelated', registry },
+      { value: val(3) },
+    );
+    const container = Container({ registry });
+    expect(
+      Array.from(container.getServices(), ({ class: item }) => item.identifier),
+    ).toEqual(['CycleUnrelated']);
+    expect(container.getByClass($Unrelated).value).toBe(3);
+    await expect(container.resolveByClass($First)).rejects.toThrow(
+      'CycleFirst → CycleSecond → CycleFirst',
+    );
+    await expect(container.resolveByClass($Dependent)).rejects.toThrow(
+      DependencyCycleError,
+    );
+  });
+});
@@ -0,0 +1,851 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  Container,
+  PersistCodecError,
+  Service,
+  func,
+  inject,
+  val,
+} from '../index';
+import { deserializeString, serialize } from '../serializers';
+import { signal } from '../integrations/react/signal';
+import { connectDevtools, memoryTransport } from '../plugins/devtools';
+import {
+  createLogger,
+  memorySink,
+  Redacted,
+  sensitive,
+} from '../plugins/logger';
+import { cache, MemoryCacheStorage, setCacheStorage } from '../plugins/cache';
+import { DebugPlugin } from '../plugins/debug';
+import {
+  browserPersist,
+  compressionCodec,
+  EncodedField,
+  encryptionCodec,
+  importEncryptionKey,
+  indexedDBAdapter,
+  memoryStorage,
+  persist,
+  withCodecs,
+  type BPersistStorage,
+} from '../plugins/persist';
+import { fileSystemAdapter } from '../plugins/persist/node';
+import { retry } from '../plugins/retry';
+import {
+  crossTabSync,
+  sync,
+  type BSyncMessage,
+  type BSyncTransport,
+} from '../plugins/sync';
+import {
+  InMemorySpanExporter,
+  registerSpanExporter,
+  SpanStatusCode,
+  trace,
+} from '../plugins/trace';
+
+const $Counter = Service(
+  { identifier: 'Counter' },
+  {
+    count: signal(val(0)),
+    items: signal(val<string[]>([])),
+    increment: func(increment),
+    add: func(add),
+    fail: func(fail),
+  },
+);
+
+function increment(this: typeof $Counter, by: number) {
+  this.count += by;
+  return this.count;
+}
+
+function add(this: typeof $Counter, item: string) {
+  this.items = [...this.items, item];
+}
+
+function fail() {
+  throw new Error('failed');
+}
+
+describe('devtools', () => {
+  it('records notifications and invocations over the transport', () => {
+    const container = Container();
+    const counter = container.getByClass($Counter);
+    const transport = memoryTransport();
+    const devtools = connectDevtools({ container, transport });
+    expect(transport.messages[0]).toMatchObject({
+      type: 'init',
+      state: { Counter: { count: 0, items: [] } },
+    });
+
+    counter.increment(2);
+    expect(() => counter.fail()).toThrow('failed');
+
+    const history = devtools.getHistory();
+    expect(
+      history.map(({ kind, propertyName }) => [kind, propertyName]),
+    ).toEqual([
+      ['notify', 'count'],
+      ['invoke', 'increment'],
+      ['invoke', 'fail'],
+    ]);
+    expect(history[0]).toMatchObject({ value: 2, previousValue: 0 });
+    expect(history[1]).toMatchObject({
+      service: 'Counter',
+      args: [2],
+      result: 2,
+      changes: [],
+    });
+    expect(history[0].changes).toEqual([
+      { service: 'Counter', propertyName: 'count', value: 2 },
+    ]);
+    expect(devtools.getState(history[1].index)).toMatchObject({
+      Counter: { count: 2, items: [] },
+    });
+    expect(history[2]).toMatchObject({ error: new Error('failed') });
+    expect(transport.messages).toHaveLength(4);
+  });
+
+  it('jumps to a recorded point', () => {
+    const container = Container();
+    const counter = container.getByClass($Counter);
+    const transport = memoryTransport();
+    const devtools = connectDevtools({ container, transport, maxEntries: 10 });
+
+    counter.add('a');
+    counter.add('b');
+    counter.increment(5);
+    const [first] = devtools.getHistory();
+    expect(devtools.jumpTo(first.index)).toBe(true);
+    expect(counter.items).toEqual(['a']);
+    expect(counter.count).toBe(0);
+    // Replaying does not record new entries
+    expect(devtools.getHistory()).toHaveLength(6);
+
+    transport.command({ type: 'restore', state: { Counter: { count: 7 } } });
+    expect(counter.count).toBe(7);
+    expect(counter.items).toEqual(['a']);
+  });
+
+  it('only copies the assigned properties', () => {
+    const container = Container();
+    const counter = container.getByClass($Counter);
+    const devtools = connectDevtools({ container, maxEntries: 2 });
+    counter.add('a');
+    counter.add('b');
+    counter.increment(1);
+    const [notify, invoke] = devtools.getHistory();
+    expect(notify.changes).toEqual([
+      { service: 'Counter', propertyName: 'count', value: 1 },
+    ]);
+    expect(invoke.changes).toEqual([]);
+    expect(devtools.getState(invoke.index)).toMatchObject({
+      Counter: { count: 1, items: ['a', 'b'] },
+    });
+    expect(devtools.getState(0)).toBeUndefined();
+  });
+
+  it('disconnects along with the container', async () => {
+    const container = Container();
+    const counter = container.getByClass($Counter);
+    const transport = memoryTransport();
+    const devtools = connectDevtools({ container, transport });
+    await container.dispose();
+    expect(transport.closed).toBe(true);
+    counter.count = 3;
+    expect(devtools.getHistory()).toHaveLength(0);
+  });
+});
+
+const $Session = Service(
+  { identifier: 'Session' },
+  {
+    token: sensitive(signal(val(''))),
+    user: signal(val('guest')),
+    login: sensitive(func(login)),
+    logout: func(logout),
+  },
+);
+
+function login(this: typeof $Session, user: string, token: string) {
+  this.user = user;
+  this.token = token;
+  return token;
+}
+
+function logout() {
+  throw new Error('offline');
+}
+
+describe('logger', () => {
+  it('logs invocations, changes and lifecycle with redaction', async () => {
+    const sink = memorySink();
+    const container = Container();
+    container.registerPlugin(createLogger({ sinks: [sink] }));
+    const session = container.getByClass($Session);
+    session.login('ada', 'secret');
+    expect(() => session.logout()).toThrow('offline');
+    await session.destroy();
+
+    const records = sink
+      .records()
+      .filter(({ service }) => service === 'Session');
+    expect(records.map(({ type, level }) => [type, level])).toEqual([
+      ['create', 'debug'],
+      ['change', 'debug'],
+      ['change', 'debug'],
+      ['invoke', 'info'],
+      ['invoke', 'error'],
+      ['destroy', 'debug'],
+    ]);
+    expect(records[1].message).toBe('Session.user: "guest" → "ada"');
+    expect(records[2]).toMatchObject({
+      propertyName: 'token',
+      value: Redacted,
+      previousValue: Redacted,
+    });
+    expect(records[3]).toMatchObject({
+      service: 'Session',
+      propertyName: 'login',
+      args: [Redacted, Redacted],
+      result: Redacted,
+    });
+    expect(records[4].error).toEqual(new Error('offline'));
+    expect(JSON.stringify(records)).not.toContain('secret');
+  });
+
+  it('reduces the errors of sensitive functions to their name', () => {
+    const $Vault = Service(
+      { identifier: 'LoggedVault' },
+      {
+        unlock: sensitive(
+          func((pin: string) => {
+            throw new TypeError(`invalid pin ${pin}`);
+          }),
+        ),
+      },
+    );
+    const sink = memorySink();
+    const container = Container({ lazy: true });
+    container.registerPlugin(createLogger({ sinks: [sink] }));
+    expect(() => container.getByClass($Vault).unlock('1234')).toThrow(
+      'invalid pin',
+    );
+    const [record] = sink.records().filter(({ type }) => type === 'invoke');
+    expect(record.error).toEqual({ name: 'TypeError' });
+    expect(JSON.stringify(record)).not.toContain('1234');
+  });
+
+  it('filters the records by level and keeps the latest ones', () => {
+    const sink = memorySink(2);
+    const container = Container();
+    container.registerPlugin(
+      createLogger({
+        sinks: [sink],
+        level: 'info',
+        levels: { Counter: 'error' },
+      }),
+    );
+    const counter = container.getByClass($Counter);
+    const session = container.getByClass($Session);
+    counter.increment(1);
+    session.login('a', 'b');
+    session.login('b', 'c');
+    session.login('c', 'd');
+    expect(sink.records().map(({ args }) => args?.length)).toEqual([2, 2]);
+    expect(sink.records().every(({ service }) => service === 'Session')).toBe(
+      true,
+    );
+    sink.clear();
+    expect(sink.records()).toEqual([]);
+  });
+
+  it('logs services extending another service once', async () => {
+    const $Base = Service({ identifier: 'LoggedBase' }, { name: val('') });
+    const $Derived = Service(
+      { identifier: 'LoggedDerived', extends: $Base },
+      { age: signal(val(0)) },
+    );
+    const sink = memorySink();
+    const container = Container({ lazy: true });
+    container.registerPlugin(createLogger({ sinks: [sink] }));
+    const derived = container.getByClass($Derived);
+    derived.age = 1;
+    await derived.destroy();
+    expect(sink.records().map(({ type, service }) => [type, service])).toEqual([
+      ['create', 'LoggedDerived'],
+      ['change', 'LoggedDerived'],
+      ['destroy', 'LoggedDerived'],
+    ]);
+  });
+});
+
+let failures = 0;
+
+const $Api = Service(
+  { identifier: 'Api' },
+  {
+    fetchUser: trace(retry(func(fetchUser), { interval: 1, shots: 3 })),
+  },
+);
+
+const $Profile = Service(
+  { identifier: 'Profile' },
+  {
+    api: inject($Api),
+    load: trace(func(load), { name: 'profile.load' }),
+    reload: trace(func(reload)),
+  },
+);
+
+async function fetchUser(id: number) {
+  if (failures-- > 0) throw new Error('unavailable');
+  return { id };
+}
+
+async function load(this: typeof $Profile, id: number) {
+  return this.api.fetchUser(id);
+}
+
+async function reload(this: typeof $Profile, id: number) {
+  await Promise.resolve();
+  return this.api.fetchUser(id);
+}
+
+describe('trace', () => {
+  const exporter = InMemorySpanExporter();
+  let unregister: () => void;
+
+  beforeEach(() => {
+    unregister = registerSpanExporter(exporter);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    unregister();
+    exporter.reset();
+    jest.restoreAllMocks();
+  });
+
+  it('records nested spans with the retry attempts', async () => {
+    failures = 2;
+    const container = Container();
+    await expect(container.getByClass($Profile).load(1)).resolves.toEqual({
+      id: 1,
+    });
+    const [child, parent] = exporter.getFinishedSpans();
+    expect(parent).toMatchObject({
+      name: 'profile.load',
+      status: { code: SpanStatusCode.OK },
+    });
+    expect(parent.parentSpanId).toBeUndefined();
+    expect(child).toMatchObject({
+      name: 'Api.fetchUser',
+      traceId: parent.traceId,
+      parentSpanId: parent.spanId,
+      attributes: {
+        'service.identifier': 'Api',
+        'code.function': 'fetchUser',
+        'retry.attempts': 3,
+      },
+    });
+    expect(child.duration).toBeGreaterThanOrEqual(0);
+  });
+
+  it('nests the spans of calls made after an await', async () => {
+    failures = 0;
+    const container = Container();
+    await container.getByClass($Profile).reload(1);
+    const [child, parent] = exporter.getFinishedSpans();
+    expect(parent.name).toBe('Profile.reload');
+    expect(child).toMatchObject({
+      name: 'Api.fetchUser',
+      traceId: parent.traceId,
+      parentSpanId: parent.spanId,
+    });
+  });
+
+  it('records failed calls', async () => {
+    failures = 5;
+    const container = Container();
+    await expect(container.getByClass($Api).fetchUser(1)).rejects.toThrow(
+      'unavailable',
+    );
+    expect(exporter.getFinishedSpans()).toMatchObject([
+      {
+        name: 'Api.fetchUser',
+        attributes: { 'retry.attempts': 3 },
+        status: { code: SpanStatusCode.ERROR, message: 'unavailable' },
+      },
+    ]);
+  });
+});
+
+let lookups = 0;
+
+const $Catalog = Service(
+  { identifier: 'Catalog' },
+  {
+    search: trace(cache(func(search))),
+  },
+);
+
+async function search(query: string) {
+  lookups++;
+  return [query, new Date(0)];
+}
+
+describe('node environment', () => {
+  it('caches results in memory and reports hits', async () => {
+    const exporter = InMemorySpanExporter();
+    const unregister = registerSpanExporter(exporter);
+    const container = Container();
+    const catalog = container.getByClass($Catalog);
+    await catalog.search('beatle');
+    await expect(catalog.search('beatle')).resolves.toEqual([
+      'beatle',
+      new Date(0),
+    ]);
+    unregister();
+    expect(lookups).toBe(1);
+    expect(
+      exporter
+        .getFinishedSpans()
+        .map(({ attributes }) => attributes['cache.hit']),
+    ).toEqual([false, true]);
+  });
+
+  it('keeps a bounded cache per container', async () => {
+    const storage = MemoryCacheStorage({ maxEntries: 1 });
+    const container = Container();
+    setCacheStorage(storage, container);
+    const catalog = container.getByClass($Catalog);
+    const before = lookups;
+    await catalog.search('a');
+    await catalog.search('b');
+    await catalog.search('a');
+    expect(lookups - before).toBe(3);
+    expect(await (await storage.open('Catalog')).keys()).toHaveLength(1);
+    await Container().getByClass($Catalog).search('b');
+    expect(lookups - before).toBe(4);
+  });
+
+  it('exposes services globally without a window', async () => {
+    const container = Container();
+    container.registerPlugin(DebugPlugin);
+    expect((globalThis as Record<string, unknown>).$Catalog).toBe(
+      container.getByClass($Catalog),
+    );
+    await container.dispose();
+    expect((globalThis as Record<string, unknown>).$Catalog).toBeUndefined();
+  });
+
+  it('serializes blobs without FileReader', async () => {
+    const data = await serialize({
+      file: new Blob(['hello'], { type: 'text/plain' }),
+    });
+    const output = deserializeString<{ file: Blob }>(JSON.stringify(data));
+    expect(output?.file.type).toBe('text/plain');
+    await expect(output?.file.text()).resolves.toBe('hello');
+  });
+});
+
+const $Preferences = Service(
+  { identifier: 'Preferences', version: 2 },
+  {
+    theme: persist(signal(val('light'))),
+    seenAt: persist(val(new Date(0))),
+    draft: val(''),
+  },
+);
+
+// A storage answering after a delay, like IndexedDB
+function delayed(storage: BPersistStorage): BPersistStorage {
+  return {
+    ...storage,
+    load: (key) =>
+      new Promise((acc) => setTimeout(() => acc(storage.load(key)), 5)),
+  };
+}
+
+describe('persist storage', () => {
+  it('restores services resolved after the data is loaded', async () => {
+    const storage = memoryStorage();
+    await storage.save('Preferences_2', { theme: 'dark', seenAt: new Date(5) });
+    const container = Container({ lazy: true });
+    await browserPersist({ container, storage: delayed(storage) });
+    const preferences = await container.resolveByClass($Preferences);
+    expect(preferences.theme).toBe('dark');
+    expect(preferences.seenAt).toEqual(new Date(5));
+
+    preferences.theme = 'blue';
+    preferences.draft = 'hidden';
+    await container.dispose();
+    expect(await storage.load('Preferences_2')).toEqual({
+      theme: 'blue',
+      seenAt: new Date(5),
+    });
+  });
+
+  it('reports the data that fails to be saved', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const storage: BPersistStorage = {
+      ...memoryStorage(),
+      save: () => Promise.reject(new Error('quota exceeded')),
+    };
+    const container = Container({ lazy: true });
+    await browserPersist({ container, storage, debounceInterval: 0 });
+    const preferences = await container.resolveByClass($Preferences);
+    preferences.theme = 'blue';
+    await tick();
+    await container.dispose();
+    await tick();
+    expect(console.error).toHaveBeenCalledTimes(2);
+    expect(console.error).toHaveBeenCalledWith(
+      'error saving service data Preferences',
+      expect.objectContaining({ message: 'quota exceeded' }),
+    );
+    jest.restoreAllMocks();
+  });
+
+  it('migrates the data of older versions', async () => {
+    const $Layout = Service(
+      {
+        identifier: 'Layout',
+        version: 3,
+        migrations: {
+          2: (data) => ({ ...data, columns: Number(data.columns) }),
+          3: ({ columns, ...data }) => ({ ...data, grid: [columns, columns] }),
+        },
+      },
+      {
+        grid: persist(val<number[]>([])),
+        dense: persist(val(false)),
+      },
+    );
+    const storage = memoryStorage();
+    await storage.save('Layout_1', { columns: '4', dense: true });
+    await storage.save('Layout_0', { stale: true });
+    const container = Container({ lazy: true });
+    await browserPersist({ container, storage });
+    const layout = await container.resolveByClass($Layout);
+    expect(layout.grid).toEqual([4, 4]);
+    expect(layout.dense).toBe(true);
+    expect(await storage.load('Layout_3')).toEqual({
+      grid: [4, 4],
+      dense: true,
+    });
+    expect(await storage.load('Layout_1')).toBeUndefined();
+    await container.dispose();
+  });
+
+  it('saves JSON files in a directory', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'beatle-'));
+    try {
+      const storage = fileSystemAdapter(join(directory, 'state'));
+      expect(await storage.load('Preferences_2')).toBeUndefined();
+      await storage.save('Preferences_2', {
+        seenAt: new Date(7),
+        tags: new Set(['a']),
+      });
+      expect(await storage.load('Preferences_2')).toEqual({
+        seenAt: new Date(7),
+        tags: new Set(['a']),
+      });
+      await storage.remove('Preferences_2');
+      expect(await storage.load('Preferences_2')).toBeUndefined();
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('creates the stores of several adapters in one database', async () => {
+    globalThis.indexedDB = new IDBFactory();
+    try {
+      const drafts = indexedDBAdapter({ storeName: 'drafts' });
+      const settings = indexedDBAdapter({ storeName: 'settings' });
+      await drafts.save('Draft_1', { text: 'a' });
+      await settings.save('Settings_1', { theme: 'dark' });
+      await drafts.save('Draft_2', { text: 'b' });
+      expect(await drafts.load('Draft_1')).toEqual({ text: 'a' });
+      expect(await drafts.load('Draft_2')).toEqual({ text: 'b' });
+      expect(await settings.load('Settings_1')).toEqual({ theme: 'dark' });
+    } finally {
+      Reflect.deleteProperty(globalThis, 'indexedDB');
+    }
+  });
+});
+
+describe('persist codecs', () => {
+  const data = {
+    draft: 'lorem ipsum '.repeat(50),
+    savedAt: new Date(3),
+  };
+
+  async function makeKey(seed: number) {
+    return importEncryptionKey(new Uint8Array(32).fill(seed));
+  }
+
+  it('compresses and encrypts the saved data', async () => {
+    const inner = memoryStorage();
+    const storage = withCodecs(inner, [
+      compressionCodec(),
+      encryptionCodec({ keys: [{ id: 'a', key: await makeKey(1) }] }),
+    ]);
+    await storage.save('Draft_1', data);
+    const record = (await inner.load('Draft_1')) as Record<string, string>;
+    expect(Object.keys(record)).toEqual([EncodedField]);
+    expect(record[EncodedField].length).toBeLessThan(data.draft.length);
+    expect(record[EncodedField]).not.toContain('lorem');
+    expect(await storage.load('Draft_1')).toEqual(data);
+  });
+
+  it('falls back to the built-in compressor', async () => {
+    const { CompressionStream } = globalThis;
+    Reflect.deleteProperty(globalThis, 'CompressionStream');
+    try {
+      const storage = withCodecs(memoryStorage(), [compressionCodec()]);
+      await storage.save('Draft_1', data);
+      expect(await storage.load('Draft_1')).toEqual(data);
+    } finally {
+      globalThis.CompressionStream = CompressionStream;
+    }
+  });
+
+  it('encrypts data of a rotated key again with the current key', async () => {
+    const inner = memoryStorage();
+    const oldKey = { id: 'a', key: await makeKey(1) };
+    const newKey = { id: 'b', key: await makeKey(2) };
+    await withCodecs(inner, [encryptionCodec({ keys: [oldKey] })]).save(
+      'Draft_1',
+      data,
+    );
+    const rotated = withCodecs(inner, [
+      encryptionCodec({ keys: [newKey, oldKey] }),
+    ]);
+    expect(await rotated.load('Draft_1')).toEqual(data);
+    const current = withCodecs(inner, [encryptionCodec({ keys: [newKey] })]);
+    expect(await current.load('Draft_1')).toEqual(data);
+  });
+
+  it('fails with a codec error when the data can not be decrypted', async () => {
+    const inner = memoryStorage();
+    await withCodecs(inner, [
+      encryptionCodec({ keys: [{ id: 'a', key: await makeKey(1) }] }),
+    ]).save('Draft_1', data);
+    const wrongKey = withCodecs(inner, [
+      encryptionCodec({ keys: [{ id: 'a', key: await makeKey(9) }] }),
+    ]);
+    const error = await Promise.resolve(wrongKey.load('Draft_1')).catch(
+      (e: unknown) => e,
+    );
+    expect(error).toBeInstanceOf(PersistCodecError);
+    expect(error).toMatchObject({ codec: 'encryption', key: 'Draft_1' });
+
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const $Draft = Service(
+      { identifier: 'Draft' },
+      { draft: persist(val('empty')) },
+    );
+    const container = Container({ lazy: true });
+    await browserPersist({ container, storage: wrongKey });
+    expect((await container.resolveByClass($Draft)).draft).toBe('empty');
+    expect(console.error).toHaveBeenCalledWith(
+      'error loading service data Draft',
+      expect.any(PersistCodecError),
+    );
+    jest.restoreAllMocks();
+    await container.dispose();
+  });
+
+  it('binds the encrypted data to its storage key', async () => {
+    const inner = memoryStorage();
+    const storage = withCodecs(inner, [
+      encryptionCodec({ keys: [{ id: 'a', key: await makeKey(1) }] }),
+    ]);
+    await storage.save('Draft_1', data);
+    await inner.save('Draft_2', (await inner.load('Draft_1'))!);
+    const error = await Promise.resolve(storage.load('Draft_2')).catch(
+      (e: unknown) => e,
+    );
+    expect(error).toBeInstanceOf(PersistCodecError);
+    expect(error).toMatchObject({ codec: 'encryption', key: 'Draft_2' });
+    expect(await storage.load('Draft_1')).toEqual(data);
+  });
+
+  it('rejects key ids longer than 255 bytes', async () => {
+    const key = await makeKey(1);
+    expect(() =>
+      encryptionCodec({ keys: [{ id: 'é'.repeat(128), key }] }),
+    ).toThrow('longer than 255 bytes');
+  });
+
+  it('rejects data that is not encoded unless plaintext is allowed', async () => {
+    const inner = memoryStorage();
+    await inner.save('Draft_1', { draft: 'forged' });
+    const codecs = [
+      encryptionCodec({ keys: [{ id: 'a', key: await makeKey(1) }] }),
+    ];
+    const error = await Promise.resolve(
+      withCodecs(inner, codecs).load('Draft_1'),
+    ).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(PersistCodecError);
+    expect(error).toMatchObject({ codec: 'encryption', key: 'Draft_1' });
+
+    const migrating = withCodecs(inner, codecs, { allowPlaintext: true });
+    expect(await migrating.load('Draft_1')).toEqual({ draft: 'forged' });
+  });
+});
+
+const $Workspace = Service(
+  { identifier: 'Workspace' },
+  {
+    theme: sync(signal(val('light'))),
+    openedAt: sync(signal(val(new Date(0)))),
+    tabs: sync(signal(val<string[]>([])), {
+      merge: ({ local, remote }) => Array.from(new Set([...local, ...remote])),
+    }),
+    local: signal(val(0)),
+  },
+);
+
+// Tabs exchanging messages synchronously
+function makeTabs() {
+  const listeners = new Set<(message: BSyncMessage) => void>();
+  const sent: BSyncMessage[] = [];
+  return {
+    sent,
+    transport(): BSyncTransport {
+      let own: ((message: BSyncMessage) => void) | undefined;
+      return {
+        post(message) {
+          sent.push(message);
+          listeners.forEach(
+            (listener) => listener !== own && listener(message),
+          );
+        },
+        subscribe(listener) {
+          own = listener;
+          listeners.add(listener);
+          return () => listeners.delete(listener);
+        },
+        close() {},
+      };
+    },
+  };
+}
+
+const tick = () => new Promise((acc) => setTimeout(acc, 10));
+
+describe('cross-tab sync', () => {
+  it('synchronizes marked properties over a broadcast channel', async () => {
+    const first = Container();
+    const second = Container();
+    crossTabSync({ container: first, channelName: 'test-sync' });
+    const { disconnect } = crossTabSync({
+      container: second,
+      channelName: 'test-sync',
+    });
+    first.getByClass($Workspace).theme = 'dark';
+    first.getByClass($Workspace).openedAt = new Date(9);
+    first.getByClass($Workspace).local = 5;
+    await tick();
+    const workspace = second.getByClass($Workspace);
+    expect(workspace.theme).toBe('dark');
+    expect(workspace.openedAt).toEqual(new Date(9));
+    expect(workspace.local).toBe(0);
+    disconnect();
+    await first.dispose();
+    await second.dispose();
+  });
+
+  it('applies changes without sending them back', async () => {
+    const tabs = makeTabs();
+    const first = Container();
+    const second = Container();
+    crossTabSync({ container: first, transport: tabs.transport() });
+    crossTabSync({ container: second, transport: tabs.transport() });
+    first.getByClass($Workspace).theme = 'dark';
+    await tick();
+    expect(tabs.sent).toHaveLength(1);
+    expect(second.getByClass($Workspace).theme).toBe('dark');
+  });
+
+  it('sends merged values back so the tabs settle on the same value', async () => {
+    const tabs = makeTabs();
+    const first = Container();
+    const second = Container();
+    crossTabSync({ container: first, transport: tabs.transport() });
+    crossTabSync({ container: second, transport: tabs.transport() });
+    first.getByClass($Workspace).tabs = ['a'];
+    second.getByClass($Workspace).tabs = ['b'];
+    await tick();
+    expect(tabs.sent.filter(({ merged }) => merged)).toHaveLength(2);
+    expect([...first.getByClass($Workspace).tabs].sort()).toEqual(['a', 'b']);
+    expect(first.getByClass($Workspace).tabs).toEqual(
+      second.getByClass($Workspace).tabs,
+    );
+  });
+
+  it('sends the changes made by watchers of a received change', async () => {
+    const tabs = makeTabs();
+    const first = Container();
+    const second = Container();
+    crossTabSync({ container: first, transport: tabs.transport() });
+    crossTabSync({ container: second, transport: tabs.transport() });
+    second.watch($Workspace, 'theme', () => {
+      second.getByClass($Workspace).openedAt = new Date(7);
+    });
+    first.getByClass($Workspace).theme = 'dark';
+    await tick();
+    expect(tabs.sent.map(({ propertyName }) => propertyName)).toEqual([
+      'theme',
+      'openedAt',
+    ]);
+    expect(first.getByClass($Workspace).openedAt).toEqual(new Date(7));
+  });
+
+  it('keeps the latest change', async () => {
+    const tabs = makeTabs();
+    const container = Container();
+    const transport = tabs.transport();
+    crossTabSync({ container, transport });
+    const workspace = container.getByClass($Workspace);
+    workspace.theme = 'dark';
+    await tick();
+    const [message] = tabs.sent;
+    const remote = tabs.transport();
+    remote.subscribe(() => undefined);
+    remote.post({ ...message, source: 'other', value: 'blue', timestamp: 1 });
+    expect(workspace.theme).toBe('dark');
+    remote.post({
+      ...message,
+      source: 'other',
+      value: 'blue',
+      timestamp: message.timestamp + 1,
+    });
+    expect(workspace.theme).toBe('blue');
+  });
+
+  it('settles on the same value for changes made at the same time', async () => {
+    const tabs = makeTabs();
+    const first = Container();
+    const second = Container();
+    crossTabSync({ container: first, transport: tabs.transport() });
+    crossTabSync({ container: second, transport: tabs.transport() });
+    jest.spyOn(Date, 'now').mockReturnValue(1000);
+    first.getByClass($Workspace).theme = 'red';
+    second.getByClass($Workspace).theme = 'green';
+    await tick();
+    jest.restoreAllMocks();
+    expect(tabs.sent.map(({ timestamp }) => timestamp)).toEqual([1000, 1000]);
+    expect(first.getByClass($Workspace).theme).toBe(
+      second.getByClass($Workspace).theme,
+    );
+  });
+});
@@ -0,0 +1,42 @@
+import { Container, Service, createRegistry, func, val } from '../index';
+
+describe('registries', () => {
+  it('keeps services of isolated registries apart', () => {
+    const first = createRegistry();
+    const second = createRegistry();
+    const $First = Service(
+      { identifier: 'Isolated', registry: first },
+      { name: val('first') },
+    );
+    const $Second = Service(
+      { identifier: 'Isolated', registry: second },
+      { name: val('second') },
+    );
+    const firstContainer = Container({ registry: first });
+    const secondContainer = Container({ registry: second });
+    expect(firstContainer.getByName<typeof $First>('Isolated')?.name).toBe(
+      'first',
+    );
+    expect(secondContainer.getByName<typeof $Second>('Isolated')?.name).toBe(
+      'second',
+    );
+    expect(Array.from(Container().getServices())).toHaveLength(0);
+    expect(firstContainer.createChild().getRegistry()).toBe(first);
+  });
+
+  it('replaces blueprints of live services in hot registries', () => {
+    const registry = createRegistry({ hot: true });
+    const $Greeter = Service(
+      { identifier: 'Greeter', registry },
+      { greet: func(() => 'hello') },
+    );
+    const container = Container({ registry });
+    const greeter = container.getByClass($Greeter);
+    const $Replaced = Service(
+      { identifier: 'Greeter', registry },
+      { greet: func(() => 'bonjour') },
+    );
+    expect($Replaced).toBe($Greeter);
+    expect(greeter.greet()).toBe('bonjour');
+  });
+});
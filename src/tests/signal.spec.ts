@@ -0,0 +1,439 @@
+import { getNotifyEvents } from '../events';
+import {
+  AsyncTransactionError,
+  Container,
+  Service,
+  deepEqual,
+  func,
+  inject,
+  shallowEqual,
+  val,
+} from '../index';
+import { computed, signal } from '../integrations/react/signal';
+import { history } from '../plugins/history';
+import { transaction } from '../plugins/transaction';
+
+const $Prices = Service(
+  { identifier: 'Prices' },
+  {
+    rate: signal(val(2)),
+  },
+);
+
+const $Cart = Service(
+  { identifier: 'Cart' },
+  {
+    prices: inject($Prices),
+    items: signal(val<number[]>([])),
+    total: computed<number>(total),
+    label: computed<string>(label),
+  },
+);
+
+let evaluations = 0;
+
+function total(this: typeof $Cart): number {
+  evaluations++;
+  return this.items.reduce((sum, item) => sum + item, 0) * this.prices.rate;
+}
+
+function label(this: typeof $Cart): string {
+  return `Total: ${this.total}`;
+}
+
+describe('computed', () => {
+  beforeEach(() => {
+    evaluations = 0;
+  });
+
+  it('memoizes the value until a dependency changes', () => {
+    const container = Container();
+    const cart = container.getByClass($Cart);
+    expect(cart.total).toBe(0);
+    expect(cart.total).toBe(0);
+    expect(evaluations).toBe(1);
+    cart.items = [1, 2];
+    expect(cart.total).toBe(6);
+    container.getByClass($Prices).rate = 3;
+    expect(cart.label).toBe('Total: 9');
+    expect(evaluations).toBe(3);
+  });
+
+  it('notifies changes of the computed value', () => {
+    const container = Container();
+    const cart = container.getByClass($Cart);
+    const changes: unknown[] = [];
+    cart.subscribe((event: { propertyName: string; value: unknown }) => {
+      changes.push([event.propertyName, event.value]);
+    });
+    expect(cart.label).toBe('Total: 0');
+    cart.items = [5];
+    expect(changes).toEqual([
+      ['items', [5]],
+      ['total', 10],
+      ['label', 'Total: 10'],
+    ]);
+  });
+
+  it('follows the plain values it reads', () => {
+    const $Greeting = Service(
+      { identifier: 'Greeting' },
+      {
+        name: val('world'),
+        text: computed<string>(greet),
+      },
+    );
+    function greet(this: typeof $Greeting) {
+      return `Hello ${this.name}`;
+    }
+    const container = Container({ lazy: true });
+    const greeting = container.getByClass($Greeting);
+    const changes: unknown[] = [];
+    greeting.subscribe((message) => {
+      getNotifyEvents(message).forEach(({ propertyName, value }) =>
+        changes.push([propertyName, value]),
+      );
+    });
+    expect(greeting.text).toBe('Hello world');
+    greeting.name = 'Beatle';
+    expect(greeting.text).toBe('Hello Beatle');
+    expect(changes).toEqual([['text', 'Hello Beatle']]);
+  });
+
+  it('stops tracking dependencies once destroyed', async () => {
+    const container = Container();
+    const cart = container.getByClass($Cart);
+    expect(cart.total).toBe(0);
+    await cart.destroy();
+    container.getByClass($Prices).rate = 4;
+    expect(evaluations).toBe(1);
+  });
+});
+
+const $Form = Service(
+  { identifier: 'Form' },
+  {
+    name: signal(val('')),
+    email: signal(val('')),
+    fill: transaction(func(fill)),
+  },
+);
+
+async function fill(this: typeof $Form, name: string, email: string) {
+  this.name = name;
+  await Promise.resolve();
+  this.email = email;
+  if (!email.includes('@')) throw new Error('invalid email');
+}
+
+describe('batch', () => {
+  it('coalesces notifications into one flush per instance', () => {
+    const container = Container();
+    const form = container.getByClass($Form);
+    const messages: unknown[] = [];
+    form.subscribe((message) => {
+      messages.push(message);
+    });
+    container.batch(() => {
+      form.name = 'a';
+      container.batch(() => {
+        form.name = 'b';
+        form.email = 'b@c';
+      });
+      expect(messages).toHaveLength(0);
+    });
+    expect(messages).toHaveLength(1);
+    expect(
+      getNotifyEvents(messages[0]).map(
+        ({ propertyName, previousValue, value }) => [
+          propertyName,
+          previousValue,
+          value,
+        ],
+      ),
+    ).toEqual([
+      ['name', '', 'b'],
+      ['email', '', 'b@c'],
+    ]);
+  });
+
+  it('rolls back the values assigned by a failing batch', () => {
+    const container = Container();
+    const form = container.getByClass($Form);
+    const messages: unknown[] = [];
+    form.subscribe((message) => {
+      messages.push(message);
+    });
+    container.batch(() => {
+      form.name = 'kept';
+      expect(() =>
+        container.batch(() => {
+          form.name = 'dropped';
+          form.email = 'dropped';
+          throw new Error('failed');
+        }),
+      ).toThrow('failed');
+      expect(form.name).toBe('kept');
+    });
+    expect(form.email).toBe('');
+    expect(getNotifyEvents(messages[0])).toHaveLength(1);
+  });
+
+  it('runs transactions through the container', async () => {
+    const container = Container();
+    const form = container.getByClass($Form);
+    await expect(form.fill('name', 'invalid')).rejects.toThrow('invalid email');
+    expect(form.name).toBe('');
+    await form.fill('name', 'name@mail');
+    expect([form.name, form.email]).toEqual(['name', 'name@mail']);
+  });
+
+  it('keeps the assignments made elsewhere while a transaction is pending', async () => {
+    const container = Container();
+    const form = container.getByClass($Form);
+    const prices = container.getByClass($Prices);
+    const messages: unknown[] = [];
+    prices.subscribe((message) => {
+      messages.push(message);
+    });
+    const pending = form.fill('name', 'invalid');
+    prices.rate = 42;
+    expect(getNotifyEvents(messages[0])).toHaveLength(1);
+    await expect(pending).rejects.toThrow('invalid email');
+    expect([form.name, form.email]).toEqual(['', '']);
+    expect(prices.rate).toBe(42);
+  });
+});
+
+describe('batch without AsyncLocalStorage', () => {
+  const $Profile = Service(
+    { identifier: 'BatchProfile' },
+    {
+      name: signal(val('')),
+      rename: transaction(func(rename)),
+      save: transaction(func(save)),
+    },
+  );
+
+  function rename(this: typeof $Profile, name: string) {
+    this.name = name;
+    if (!name) throw new Error('empty name');
+  }
+
+  async function save(this: typeof $Profile, name: string) {
+    this.name = name;
+    await Promise.resolve();
+  }
+
+  beforeEach(() => {
+    jest.spyOn(process, 'getBuiltinModule').mockReturnValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('rolls back synchronous transactions', () => {
+    const container = Container({ lazy: true });
+    const profile = container.getByClass($Profile);
+    profile.rename('first');
+    expect(() => profile.rename('')).toThrow('empty name');
+    expect(profile.name).toBe('first');
+  });
+
+  it('rejects asynchronous transactions', () => {
+    const container = Container({ lazy: true });
+    const profile = container.getByClass($Profile);
+    expect(() => profile.save('saved')).toThrow(AsyncTransactionError);
+    expect(profile.name).toBe('');
+  });
+});
+
+describe('deep signals', () => {
+  const $Todos = Service(
+    { identifier: 'Todos' },
+    {
+      items: signal(val<{ title: string; done: boolean }[]>([]), {
+        deep: true,
+      }),
+      tags: signal(val(new Map<string, { count: number }>()), { deep: true }),
+      shallow: signal(val<number[]>([])),
+    },
+  );
+
+  function collect(container: ReturnType<typeof Container>) {
+    const paths: unknown[] = [];
+    container.subscribe((message) => {
+      getNotifyEvents(message).forEach(({ path, value }) =>
+        paths.push([path, value]),
+      );
+    });
+    return paths;
+  }
+
+  it('notifies nested changes with their path', () => {
+    const container = Container();
+    const todos = container.getByClass($Todos);
+    const paths = collect(container);
+    todos.items.push({ title: 'write', done: false });
+    todos.items[0].done = true;
+    todos.tags.set('home', { count: 1 });
+    todos.tags.get('home')!.count++;
+    todos.shallow.push(1);
+    expect(paths).toEqual([
+      ['items.0', { title: 'write', done: true }],
+      ['items.0.done', true],
+      ['tags.home', { count: 2 }],
+      ['tags.home.count', 2],
+    ]);
+    expect(todos.items).toBe(todos.items);
+    expect(todos.items).toEqual([{ title: 'write', done: true }]);
+  });
+
+  it('flushes the changes of array mutators at once', () => {
+    const container = Container();
+    const todos = container.getByClass($Todos);
+    todos.items = [
+      { title: 'a', done: false },
+      { title: 'b', done: false },
+    ];
+    const messages: unknown[] = [];
+    todos.subscribe((message) => {
+      messages.push(message);
+    });
+    todos.items.splice(0, 1);
+    expect(messages).toHaveLength(1);
+    expect(getNotifyEvents(messages[0]).map(({ path }) => path)).toEqual([
+      'items.0',
+      'items.1',
+      'items.length',
+    ]);
+  });
+});
+
+describe('signal equality', () => {
+  const $Query = Service(
+    { identifier: 'Query' },
+    {
+      strict: signal(val({ page: 1 })),
+      shallow: signal(val({ page: 1, tags: ['a'] }), { equals: 'shallow' }),
+      deep: signal(val({ page: 1, tags: ['a'] }), { equals: 'deep' }),
+      custom: signal(val('a'), {
+        equals: (a, b) => String(a).toLowerCase() === String(b).toLowerCase(),
+      }),
+    },
+  );
+
+  it('only notifies values that differ by the chosen comparison', () => {
+    const container = Container();
+    const query = container.getByClass($Query);
+    const changed: string[] = [];
+    query.subscribe((message) => {
+      getNotifyEvents(message).forEach(({ propertyName }) =>
+        changed.push(propertyName),
+      );
+    });
+    query.strict = { page: 1 };
+    query.shallow = { ...query.shallow };
+    query.shallow = { page: 1, tags: ['a'] };
+    query.deep = { page: 1, tags: ['a'] };
+    query.deep = { page: 2, tags: ['a'] };
+    query.custom = 'A';
+    query.custom = 'b';
+    expect(changed).toEqual(['strict', 'shallow', 'deep', 'custom']);
+  });
+
+  it('compares nested structures', () => {
+    const cyclic: Record<string, unknown> = { a: 1 };
+    cyclic.self = cyclic;
+    const other: Record<string, unknown> = { a: 1 };
+    other.self = other;
+    expect(deepEqual(cyclic, other)).toBe(true);
+    expect(deepEqual(new Map([['a', [1]]]), new Map([['a', [1]]]))).toBe(true);
+    expect(deepEqual(new Date(1), new Date(2))).toBe(false);
+    expect(shallowEqual([{}], [{}])).toBe(false);
+    expect(shallowEqual(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+  });
+});
+
+describe('history', () => {
+  const $Editor = Service(
+    { identifier: 'Editor' },
+    {
+      text: signal(val('')),
+      title: signal(val('')),
+      history: history(['text', 'title'], { limit: 2 }),
+      rename: func(rename),
+      retitle: func(retitle),
+    },
+  );
+
+  function rename(this: typeof $Editor, title: string) {
+    this.title = title;
+    this.text = `# ${title}`;
+  }
+
+  async function retitle(this: typeof $Editor, title: string) {
+    this.title = title;
+    await Promise.resolve();
+    this.title = title.toUpperCase();
+  }
+
+  it('undoes and redoes the changes of a function call at once', () => {
+    const container = Container();
+    const editor = container.getByClass($Editor);
+    editor.text = 'draft';
+    editor.rename('first');
+    expect(editor.history.canUndo).toBe(true);
+    editor.history.undo();
+    expect([editor.title, editor.text]).toEqual(['', 'draft']);
+    expect(editor.history.canRedo).toBe(true);
+    editor.history.redo();
+    expect([editor.title, editor.text]).toEqual(['first', '# first']);
+    editor.history.undo();
+    editor.history.undo();
+    expect(editor.text).toBe('');
+    expect(editor.history.canUndo).toBe(false);
+  });
+
+  it('keeps a bounded stack and drops the redo steps on changes', () => {
+    const container = Container();
+    const editor = container.getByClass($Editor);
+    editor.text = 'a';
+    editor.text = 'b';
+    editor.text = 'c';
+    editor.history.undo();
+    editor.text = 'd';
+    expect(editor.history.canRedo).toBe(false);
+    editor.history.undo();
+    editor.history.undo();
+    expect(editor.text).toBe('a');
+    expect(editor.history.canUndo).toBe(false);
+    editor.history.clearHistory();
+    expect(editor.history.canRedo).toBe(false);
+  });
+
+  it('keeps the changes made elsewhere out of a pending call', async () => {
+    const container = Container();
+    const editor = container.getByClass($Editor);
+    const pending = editor.retitle('draft');
+    editor.text = 'typed';
+    await pending;
+    editor.history.undo();
+    expect([editor.title, editor.text]).toEqual(['DRAFT', '']);
+    editor.history.undo();
+    expect(editor.title).toBe('');
+  });
+
+  it('does not record an undo flushed by an enclosing batch', () => {
+    const container = Container();
+    const editor = container.getByClass($Editor);
+    editor.text = 'a';
+    container.batch(() => editor.history.undo());
+    expect(editor.text).toBe('');
+    expect(editor.history.canRedo).toBe(true);
+    expect(editor.history.canUndo).toBe(false);
+    editor.history.redo();
+    expect(editor.text).toBe('a');
+  });
+});
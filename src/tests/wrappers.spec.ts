@@ -0,0 +1,104 @@
+import {
+  Container,
+  Service,
+  WrapperRegistry,
+  createRegistry,
+  func,
+  type BDescriptor,
+  type BPlugin,
+} from '../index';
+import { optimus } from '../plugins/optimus';
+import { retry } from '../plugins/retry';
+
+const calls: string[] = [];
+
+function tag<T>(kind: string, next: BDescriptor<T>): BDescriptor<T> {
+  return function (target, key) {
+    WrapperRegistry.register(target, { propertyName: key, kind });
+    return next(target, key);
+  };
+}
+
+function TagPlugin(): BPlugin {
+  return {
+    onWrap(_target, _instance, _propertyName, kind, next) {
+      if (kind === 'ignored') return;
+      return function (...args: unknown[]) {
+        calls.push(kind);
+        return next(...args);
+      };
+    },
+  };
+}
+
+describe('wrappers', () => {
+  beforeEach(() => calls.splice(0, calls.length));
+
+  it('composes wrappers following the nesting of the descriptors', () => {
+    const registry = createRegistry({ inheritPlugins: false });
+    registry.extendPlugins(TagPlugin);
+    const $Tagged = Service(
+      { identifier: 'Tagged', registry },
+      {
+        run: tag(
+          'outer',
+          tag(
+            'ignored',
+            tag(
+              'inner',
+              func(() => 'done'),
+            ),
+          ),
+        ),
+        swapped: tag(
+          'inner',
+          tag(
+            'outer',
+            func(() => 'done'),
+          ),
+        ),
+      },
+    );
+    const container = Container({ registry });
+    const tagged = container.getByClass($Tagged);
+    expect(tagged.run()).toBe('done');
+    expect(calls).toEqual(['outer', 'inner']);
+    expect(container.getWrapperChain($Tagged, 'run')).toEqual([
+      'outer',
+      'inner',
+    ]);
+    expect(container.getWrapperChain($Tagged, 'swapped')).toEqual([
+      'inner',
+      'outer',
+    ]);
+    expect(container.createChild().getWrapperChain($Tagged, 'run')).toEqual([
+      'outer',
+      'inner',
+    ]);
+  });
+
+  it('keeps the order of the built-in plugins', async () => {
+    let count = 0;
+    const $Fetcher = Service(
+      { identifier: 'Fetcher' },
+      {
+        load: retry(optimus(func(async () => ++count))),
+        share: optimus(retry(func(async () => ++count))),
+      },
+    );
+    const container = Container();
+    const fetcher = container.getByClass($Fetcher);
+    expect(container.getWrapperChain($Fetcher, 'load')).toEqual([
+      'retry',
+      'optimus',
+    ]);
+    expect(container.getWrapperChain($Fetcher, 'share')).toEqual([
+      'optimus',
+      'retry',
+    ]);
+    expect(await Promise.all([fetcher.share(), fetcher.share()])).toEqual([
+      1, 1,
+    ]);
+    expect(await fetcher.load()).toBe(2);
+  });
+});
@@ -0,0 +1,52 @@
+import { createAsyncContext } from './environment';
+
+/**
+ * Value of a span attribute.
+ */
+export type BSpanAttributeValue = string | number | boolean;
+
+/**
+ * The span of a traced call, as seen by the plugins wrapping the call.
+ */
+export type BActiveSpan = {
+  /**
+   * Sets an attribute of the span (e.g. `cache.hit`).
+   *
+   * @param name The name of the attribute.
+   * @param value The value of the attribute.
+   */
+  setAttribute(name: string, value: BSpanAttributeValue): void;
+  /**
+   * Records an event that happened during the span.
+   *
+   * @param name The name of the event.
+   * @param attributes Optional attributes of the event.
+   */
+  addEvent(
+    name: string,
+    attributes?: Record<string, BSpanAttributeValue>,
+  ): void;
+};
+
+const activeSpans = createAsyncContext<BActiveSpan>();
+
+/**
+ * Returns the span of the traced call currently running, if any.
+ * Wrappers read it synchronously when they are called, so they can annotate the span once their promise settles.
+ */
+export function getActiveSpan(): BActiveSpan | undefined {
+  return activeSpans.get();
+}
+
+/**
+ * Runs a function while a span is active, spans started by the function are nested under it.
+ * The span stays active past the `await` of the function where `AsyncLocalStorage` is available,
+ * elsewhere (e.g. browsers) only the calls made before its first `await` are nested.
+ *
+ * @param span The span to activate.
+ * @param fn The function to run.
+ * @returns The result of the function.
+ */
+export function runInSpan<T>(span: BActiveSpan, fn: () => T): T {
+  return activeSpans.run(span, fn);
+}
@@ -3,8 +3,12 @@ import type { BServiceInstance } from './service';
 /**
  * Type definition for the Property Vault.
  * The vault is a map that stores properties of a service instance.
+ * An entry may transform its raw value when read (e.g. to observe nested changes).
  */
-export type PropertyVault = Map<string, { value: unknown }>;
+export type PropertyVault = Map<
+  string,
+  { value: unknown; read?: (value: unknown) => unknown }
+>;
 
 /**
  * Symbol used to identify the property vault on service instances.
@@ -33,3 +37,38 @@ export function getVaultFromInstance(
   }
   return instance[VaultSymbol] as unknown as PropertyVault;
 }
+
+/**
+ * Callback receiving the properties read while a function is tracked.
+ */
+export type BReadTracker = (instance: unknown, propertyName: string) => void;
+
+let currentTracker: BReadTracker | undefined;
+
+/**
+ * Reports the read of a property to the function being tracked, if any.
+ * Called by the property getters of service instances.
+ *
+ * @param instance The service instance.
+ * @param propertyName The name of the read property.
+ */
+export function trackRead(instance: unknown, propertyName: string) {
+  if (currentTracker) currentTracker(instance, propertyName);
+}
+
+/**
+ * Runs a function while collecting the properties it reads, including the properties of other services.
+ *
+ * @param fn The function to run.
+ * @param tracker The callback receiving each read property.
+ * @returns The result of the function.
+ */
+export function track<T>(fn: () => T, tracker: BReadTracker): T {
+  const previousTracker = currentTracker;
+  currentTracker = tracker;
+  try {
+    return fn();
+  } finally {
+    currentTracker = previousTracker;
+  }
+}
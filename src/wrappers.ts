@@ -0,0 +1,66 @@
+import { MakeArrayRegistry } from './registries';
+import type { BServiceClass } from './service';
+
+/**
+ * A function produced by a plugin wrapping a `func` member of a service.
+ * The arguments default to `unknown[]`, pass the parameters of the wrapped function to narrow them.
+ */
+export type BWrappedFunction<A extends unknown[] = unknown[], R = unknown> = (
+  ...args: A
+) => R;
+
+/**
+ * Type definition for a wrapper applied on a property of a service.
+ * The kind names the plugin behavior (e.g. `retry`, `cache`) handled through `onWrap`.
+ */
+export type BWrapperDefinition = {
+  propertyName: string;
+  kind: string;
+};
+
+/**
+ * A custom registry for function wrappers.
+ * Descriptors register their kind before calling the descriptor they wrap,
+ * so the entries of a property are stored from the innermost to the outermost wrapper.
+ */
+export const WrapperRegistry = MakeArrayRegistry<BWrapperDefinition>();
+
+/**
+ * Returns the wrappers of every property of a service, ordered from the outermost to the innermost one.
+ * A property declared again by a service overrides the wrappers of the service it extends.
+ *
+ * @example
+ * ```tsx
+ * const $ServiceA = Service({ identifier: 'ServiceA' }, {
+ *   fetchUsers: cache(retry(func(fetchUsers))),
+ * });
+ *
+ * getWrappers($ServiceA).get('fetchUsers');
+ * // { target: $ServiceA, kinds: ['cache', 'retry'] }
+ * ```
+ *
+ * @param target The service class.
+ * @returns A map of property names to the class declaring the wrappers and their kinds.
+ */
+export function getWrappers(target: BServiceClass) {
+  const output = new Map<string, { target: BServiceClass; kinds: string[] }>();
+  let current: BServiceClass | undefined = target;
+  while (current) {
+    const owner = current;
+    const local = new Map<string, string[]>();
+    WrapperRegistry.get(owner)?.forEach(({ propertyName, kind }) => {
+      if (output.has(propertyName)) return;
+      let kinds = local.get(propertyName);
+      if (!kinds) {
+        kinds = [];
+        local.set(propertyName, kinds);
+      }
+      kinds.unshift(kind);
+    });
+    local.forEach((kinds, propertyName) =>
+      output.set(propertyName, { target: owner, kinds }),
+    );
+    current = current.extends as BServiceClass | undefined;
+  }
+  return output;
+}